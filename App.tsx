@@ -1,35 +1,283 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
 import BaziForm from './components/BaziForm';
-import LifeKLineChart from './components/LifeKLineChart';
+import LifeKLineChart, { CHART_TITLE } from './components/LifeKLineChart';
 import AnalysisResult from './components/AnalysisResult';
-import { UserInput, LifeDestinyResult } from './types';
-import { generateLifeAnalysis } from './services/geminiService';
-import { Sparkles, AlertCircle, BookOpen, ArrowRight } from 'lucide-react';
+import ChartCorrections from './components/ChartCorrections';
+import SettingsDialog from './components/SettingsDialog';
+import GenerationAttempts from './components/GenerationAttempts';
+import ErrorPanel from './components/ErrorPanel';
+import CachedResultBadge from './components/CachedResultBadge';
+import ChartLibrary from './components/ChartLibrary';
+import ImportReportButton from './components/ImportReportButton';
+import PrintReport from './components/PrintReport';
+import KLineTable from './components/KLineTable';
+import ShareDialog from './components/ShareDialog';
+import { UserInput, LifeDestinyResult, KLinePoint, GenerationAttempt } from './types';
+import { activeModelId, generateLifeAnalysis } from './services/analysisClient';
+import { cacheKeyFor, getCachedResult, putCachedResult } from './services/resultCache';
+import { schemaErrors } from './services/resultSchema';
+import {
+  SavedChart,
+  defaultChartName,
+  getLastViewedChartId,
+  getSavedChart,
+  saveChart,
+  setLastViewedChartId,
+} from './services/chartLibrary';
+import { ReportFile, buildReportFile, downloadReportFile } from './services/reportFile';
+import { buildChartImage, chartImageDataUrl, findChartSvg } from './services/chartExport';
+import { clearShareFragment, hasShareFragment, parseShareFragment } from './services/shareLink';
+import { TIMELINE_MAX_AGE } from './services/timeline';
+import { AnalysisError, classifyError } from './services/analysisErrors';
+import { Sparkles, BookOpen, ArrowRight, Settings, Library, Download, AlertCircle, Printer, Share2, Link2 } from 'lucide-react';
 
 const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<LifeDestinyResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  // 流式到达的K线（按年龄排序，重试时同一年龄以最新为准）
+  const [streamingPoints, setStreamingPoints] = useState<KLinePoint[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  // 本次生成中各请求的失败与重试记录
+  const [attempts, setAttempts] = useState<GenerationAttempt[]>([]);
+  // 每次提交递增；回调与结果只在仍是最新一次提交时生效，旧请求的迟到响应直接丢弃
+  const requestIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // 当前结果对应的输入（用于"重新生成"），以及结果来自缓存时的生成时间
+  const [lastInput, setLastInput] = useState<UserInput | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // 当前显示的结果在命盘库中的条目
+  const [currentChartId, setCurrentChartId] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  // 生成当前结果的模型（导出报告时写入文件）
+  const [resultModelId, setResultModelId] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  // 打印报告中的K线图：打印前从页面上的图表截取
+  const [printChartUrl, setPrintChartUrl] = useState<string | null>(null);
+  const chartSectionRef = useRef<HTMLElement>(null);
+  const [shareOpen, setShareOpen] = useState(false);
+  // 只含排盘输入的分享链接：预填表单，等用户确认后再推演；formKey 变化时表单重新挂载
+  const [sharedInput, setSharedInput] = useState<UserInput | null>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const resultName = lastInput ? defaultChartName(lastInput) : result?.analysis.bazi.join(' ') || '';
+
+  const captureChartForPrint = () => {
+    const svg = findChartSvg(chartSectionRef.current);
+    return svg ? chartImageDataUrl(buildChartImage(svg, { title: CHART_TITLE, subtitle: resultName })) : null;
+  };
+
+  // Ctrl+P / the browser menu skip handlePrint, so capture the chart here too
+  const captureRef = useRef(captureChartForPrint);
+  captureRef.current = captureChartForPrint;
+  useEffect(() => {
+    const onBeforePrint = () => flushSync(() => setPrintChartUrl(captureRef.current()));
+    window.addEventListener('beforeprint', onBeforePrint);
+    return () => window.removeEventListener('beforeprint', onBeforePrint);
+  }, []);
+
+  const handlePrint = async () => {
+    const url = captureChartForPrint();
+    if (url) {
+      // Decode first so the image is ready when the print snapshot is taken
+      const img = new Image();
+      img.src = url;
+      await img.decode().catch(() => undefined);
+    }
+    flushSync(() => setPrintChartUrl(url));
+    window.print();
+  };
+
+  const showChart = (chart: SavedChart) => {
+    setResult(chart.result);
+    setLastInput(chart.input);
+    setResultModelId(chart.modelId);
+    setCurrentChartId(chart.id);
+    setLastViewedChartId(chart.id);
+  };
+
+  // Shared charts join the library like imports; input-only links prefill the form
+  const openShareLink = async () => {
+    let shared;
+    try {
+      shared = await parseShareFragment(window.location.hash);
+    } catch (err: any) {
+      clearShareFragment();
+      setImportError(`打开分享链接失败：${err.message}`);
+      return;
+    }
+    if (!shared) return;
+    // The link has been consumed; keep later refreshes on the library entry
+    clearShareFragment();
+    resetRunState();
+    if (shared.result) {
+      const requestId = requestIdRef.current;
+      const chart = await saveChart({ input: shared.input, result: shared.result, modelId: shared.modelId });
+      if (requestId === requestIdRef.current) showChart(chart);
+      return;
+    }
+    setResult(null);
+    setCurrentChartId(null);
+    setLastViewedChartId(null);
+    setSharedInput(shared.input);
+    setFormKey((key) => key + 1);
+  };
+
+  // A link pasted into an open tab only changes the hash
+  const openShareRef = useRef(openShareLink);
+  openShareRef.current = openShareLink;
+  useEffect(() => {
+    const onHashChange = () => openShareRef.current();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Open a shared link, or reopen the chart that was on screen before the page was refreshed
+  useEffect(() => {
+    if (hasShareFragment(window.location.hash)) {
+      openShareRef.current();
+      return;
+    }
+    const id = getLastViewedChartId();
+    if (!id) return;
+    const requestId = requestIdRef.current;
+    getSavedChart(id).then((chart) => {
+      // Skip if the user already started something else
+      if (chart && requestId === requestIdRef.current) showChart(chart);
+    });
+  }, []);
+
+  const handleStreamedPoint = (point: KLinePoint) => {
+    setStreamingPoints((prev) =>
+      [...prev.filter((p) => p.age !== point.age), point].sort((a, b) => a.age - b.age)
+    );
+  };
+
+  // Abort whatever is in flight and make its late callbacks stale
+  const invalidateRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    return ++requestIdRef.current;
+  };
+
+  const handleCancel = () => {
+    invalidateRequest();
+    setLoading(false);
+    setStreamingPoints([]);
+  };
+
+  const handleReset = () => {
+    invalidateRequest();
+    setResult(null);
+    setCurrentChartId(null);
+    setLastViewedChartId(null);
+  };
+
+  // Stop any generation and clear its progress before showing a stored result
+  const resetRunState = () => {
+    invalidateRequest();
+    setLoading(false);
+    setError(null);
+    setStreamingPoints([]);
+    setAttempts([]);
+    setCachedAt(null);
+    setImportError(null);
+  };
+
+  const handleOpenChart = (chart: SavedChart) => {
+    resetRunState();
+    showChart(chart);
+    setLibraryOpen(false);
+  };
+
+  // Imported reports render as-is; with an input they also join the library
+  const handleImport = async (file: ReportFile) => {
+    resetRunState();
+    if (file.input) {
+      const requestId = requestIdRef.current;
+      const chart = await saveChart({ input: file.input, result: file.result, modelId: file.modelId });
+      if (requestId === requestIdRef.current) showChart(chart);
+      return;
+    }
+    setResult(file.result);
+    setLastInput(null);
+    setResultModelId(file.modelId);
+    setCurrentChartId(null);
+    setLastViewedChartId(null);
+  };
+
+  const handleExport = () => {
+    if (result) downloadReportFile(buildReportFile(lastInput, result, resultModelId || 'unknown'));
+  };
+
+  const handleChartDeleted = (id: string) => {
+    // The result stays on screen, it just no longer has a library entry
+    if (id === currentChartId) setCurrentChartId(null);
+  };
+
+  const handleFormSubmit = async (data: UserInput, { skipCache = false } = {}) => {
+    const requestId = invalidateRequest();
+    const isCurrent = () => requestId === requestIdRef.current;
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  const handleFormSubmit = async (data: UserInput) => {
     setLoading(true);
     setError(null);
     setResult(null);
+    setStreamingPoints([]);
+    setAttempts([]);
+    setLastInput(data);
+    setCachedAt(null);
+    setCurrentChartId(null);
+    setImportError(null);
+    setSharedInput(null);
 
     try {
-      const analysis = await generateLifeAnalysis(data);
+      const modelId = await activeModelId();
+      const cacheKey = await cacheKeyFor(data, modelId);
+      if (!skipCache) {
+        const cached = await getCachedResult(cacheKey);
+        if (!isCurrent()) return;
+        if (cached) {
+          const chart = await saveChart({ input: data, result: cached.result, modelId, cacheKey });
+          if (!isCurrent()) return;
+          showChart({ ...chart, input: data });
+          setCachedAt(cached.createdAt);
+          return;
+        }
+      }
+
+      const analysis = await generateLifeAnalysis(data, {
+        onPoint: (point) => isCurrent() && handleStreamedPoint(point),
+        onAttempt: (attempt) => isCurrent() && setAttempts((prev) => [...prev, attempt]),
+        signal: controller.signal,
+      });
+      if (!isCurrent()) return;
       setResult(analysis);
+      // Partial results (a chunk that never validated) go to the library but not the cache
+      const complete = schemaErrors(analysis.validationIssues || []).length === 0;
+      if (complete) putCachedResult(cacheKey, modelId, analysis);
+      // Same input and model replace the earlier library entry instead of adding another
+      const chart = await saveChart({ input: data, result: analysis, modelId, cacheKey });
+      if (isCurrent()) showChart(chart);
     } catch (err: any) {
-      setError(err.message || "命理测算过程中发生了意外错误，请重试。");
+      const classified = classifyError(err);
+      // A manual cancel needs no error panel
+      if (isCurrent() && classified.kind !== 'cancelled') setError(classified);
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreamingPoints([]);
+      }
     }
   };
 
   return (
-    <div className="min-h-screen bg-gray-50 flex flex-col items-center">
+    <div className="min-h-screen bg-gray-50 print:bg-white flex flex-col items-center">
       {/* Header */}
-      <header className="w-full bg-white border-b border-gray-200 py-6 sticky top-0 z-50">
+      <header className="w-full bg-white border-b border-gray-200 py-6 sticky top-0 z-50 print:hidden">
         <div className="max-w-7xl mx-auto px-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="bg-black text-white p-2 rounded-lg">
@@ -44,13 +292,49 @@ const App: React.FC = () => {
             <div className="hidden md:block text-sm text-gray-400 font-medium bg-gray-100 px-3 py-1 rounded-full">
                基于 AI 大模型驱动
             </div>
+            <ImportReportButton onImported={handleImport} onError={setImportError} />
+            <button
+              onClick={() => setLibraryOpen(true)}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 font-medium"
+              title="命盘库"
+            >
+              <Library className="w-5 h-5" />
+              <span className="hidden md:inline">命盘库</span>
+            </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 font-medium"
+              title="模型设置"
+            >
+              <Settings className="w-5 h-5" />
+              <span className="hidden md:inline">设置</span>
+            </button>
           </div>
         </div>
       </header>
 
+      {settingsOpen && <SettingsDialog onClose={() => setSettingsOpen(false)} />}
+      {shareOpen && result && lastInput && (
+        <ShareDialog input={lastInput} result={result} modelId={resultModelId || 'unknown'} onClose={() => setShareOpen(false)} />
+      )}
+      {libraryOpen && (
+        <ChartLibrary
+          currentId={currentChartId}
+          onOpen={handleOpenChart}
+          onDeleted={handleChartDeleted}
+          onClose={() => setLibraryOpen(false)}
+        />
+      )}
+
       {/* Main Content */}
-      <main className="w-full max-w-7xl mx-auto px-4 py-8 md:py-12 flex flex-col gap-12">
-        
+      <main className="w-full max-w-7xl mx-auto px-4 py-8 md:py-12 flex flex-col gap-12 print:hidden">
+        {importError && (
+          <div className="flex items-center gap-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg border border-red-100">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm break-all">{importError}</p>
+          </div>
+        )}
+
         {/* If no result, show intro and form */}
         {!result && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] gap-8 animate-fade-in">
@@ -83,14 +367,47 @@ const App: React.FC = () => {
               </a>
             </div>
             
-            <BaziForm onSubmit={handleFormSubmit} isLoading={loading} />
-
-            {error && (
-              <div className="flex items-center gap-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg border border-red-100 max-w-md w-full">
-                <AlertCircle className="w-5 h-5 flex-shrink-0" />
-                <p className="text-sm">{error}</p>
+            {sharedInput && !loading && (
+              <div className="w-full max-w-md flex items-start gap-3 text-sm text-indigo-800 bg-indigo-50 px-4 py-3 rounded-lg border border-indigo-100">
+                <Link2 className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p>分享的链接只包含排盘信息（{[sharedInput.yearPillar, sharedInput.monthPillar, sharedInput.dayPillar, sharedInput.hourPillar].join(' ')}），已填入下方表单。</p>
+                  <button
+                    onClick={() => handleFormSubmit(sharedInput)}
+                    className="mt-2 font-bold text-indigo-600 hover:text-indigo-800"
+                  >
+                    立即推演 →
+                  </button>
+                </div>
               </div>
             )}
+
+            <BaziForm
+              key={formKey}
+              onSubmit={handleFormSubmit}
+              isLoading={loading}
+              onCancel={handleCancel}
+              initialInput={sharedInput}
+            />
+
+            {loading && (
+              <section className="w-full space-y-3 animate-fade-in">
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span className="font-medium">流年K线生成中…</span>
+                  <span className="font-mono">{streamingPoints.length}/{TIMELINE_MAX_AGE} 岁</span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 transition-all duration-300"
+                    style={{ width: `${(streamingPoints.length / TIMELINE_MAX_AGE) * 100}%` }}
+                  />
+                </div>
+                <GenerationAttempts attempts={attempts} defaultOpen />
+                {streamingPoints.length > 0 && <LifeKLineChart data={streamingPoints} streaming />}
+              </section>
+            )}
+
+            {error && <ErrorPanel error={error} attempts={attempts} />}
           </div>
         )}
 
@@ -99,17 +416,50 @@ const App: React.FC = () => {
           <div className="animate-fade-in space-y-12">
             
             <div className="flex justify-between items-center border-b pb-4">
-               <h2 className="text-2xl font-bold font-serif-sc text-gray-800">命盘分析报告</h2>
-               <button 
-                 onClick={() => setResult(null)}
-                 className="text-indigo-600 hover:text-indigo-800 font-medium text-sm"
-               >
-                 ← 重新排盘
-               </button>
+               <div className="flex flex-wrap items-center gap-4">
+                 <h2 className="text-2xl font-bold font-serif-sc text-gray-800">命盘分析报告</h2>
+                 {cachedAt && lastInput && (
+                   <CachedResultBadge createdAt={cachedAt} onRegenerate={() => handleFormSubmit(lastInput, { skipCache: true })} />
+                 )}
+               </div>
+               <div className="flex items-center gap-4">
+                 {lastInput && (
+                   <button
+                     onClick={() => setShareOpen(true)}
+                     className="flex items-center gap-1 text-gray-500 hover:text-indigo-600 font-medium text-sm"
+                     title="生成可分享的链接"
+                   >
+                     <Share2 className="w-4 h-4" />
+                     分享
+                   </button>
+                 )}
+                 <button
+                   onClick={handlePrint}
+                   className="flex items-center gap-1 text-gray-500 hover:text-indigo-600 font-medium text-sm"
+                   title="打印完整报告，或在打印对话框中另存为 PDF"
+                 >
+                   <Printer className="w-4 h-4" />
+                   打印 / PDF
+                 </button>
+                 <button
+                   onClick={handleExport}
+                   className="flex items-center gap-1 text-gray-500 hover:text-indigo-600 font-medium text-sm"
+                   title="导出完整报告（JSON），可在其他设备导入"
+                 >
+                   <Download className="w-4 h-4" />
+                   导出 JSON
+                 </button>
+                 <button 
+                   onClick={handleReset}
+                   className="text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+                 >
+                   ← 重新排盘
+                 </button>
+               </div>
             </div>
 
             {/* The Chart */}
-            <section className="space-y-4">
+            <section ref={chartSectionRef} className="space-y-4">
               <h3 className="text-xl font-bold text-gray-700 flex items-center gap-2">
                  <span className="w-1 h-6 bg-indigo-600 rounded-full"></span>
                  百岁流年走势图 (100年)
@@ -119,7 +469,14 @@ const App: React.FC = () => {
                 <span className="text-red-600 font-bold">红色K线</span> 代表运势下跌（凶）。
                 (点击K线查看流年详批)
               </p>
-              <LifeKLineChart data={result.chartData} />
+              <LifeKLineChart data={result.chartData} exportName={resultName} />
+              <ChartCorrections
+                corrections={result.corrections || []}
+                integrityWarnings={result.integrityWarnings}
+                validationIssues={result.validationIssues}
+              />
+              <GenerationAttempts attempts={attempts} />
+              <KLineTable data={result.chartData} exportName={resultName} />
             </section>
 
             {/* The Text Report */}
@@ -130,8 +487,18 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {result && (
+        <PrintReport
+          result={result}
+          input={lastInput}
+          name={resultName}
+          modelId={resultModelId}
+          chartImageUrl={printChartUrl}
+        />
+      )}
+
       {/* Footer */}
-      <footer className="w-full bg-gray-900 text-gray-400 py-8 mt-auto">
+      <footer className="w-full bg-gray-900 text-gray-400 py-8 mt-auto print:hidden">
         <div className="max-w-7xl mx-auto px-4 text-center text-sm">
           <p>&copy; {new Date().getFullYear()} 人生K线项目 推特@0xsakura666 | 仅供娱乐与文化研究，请勿迷信</p>
         </div>
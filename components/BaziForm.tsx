@@ -1,14 +1,117 @@
 import React, { useState, useMemo } from 'react';
 import { UserInput, Gender } from '../types';
-import { Loader2, Sparkles, AlertCircle, TrendingUp } from 'lucide-react';
+import { Loader2, Sparkles, AlertCircle, TrendingUp, CalendarDays, MapPin, X } from 'lucide-react';
+import { calculateFourPillars, hourBranchIndex, parseSolarBirthDateTime, PillarOptions } from '../services/baziCalendar';
+import { formatBeijingTime } from '../services/solarTerms';
+import { parseLongitude } from '../services/trueSolarTime';
+import { CHINA_CITIES, findCity } from '../services/cities';
+import {
+  LUNAR_MAX_YEAR,
+  LUNAR_MIN_YEAR,
+  LUNAR_MONTH_NAMES,
+  formatLunarDate,
+  formatLunarDay,
+  getLeapMonth,
+  getLunarMonthDays,
+  lunarToSolar,
+} from '../services/lunarCalendar';
+import { EARTHLY_BRANCHES } from '../services/ganZhi';
+import { InputField, InputIssue, validateUserInput } from '../services/inputValidation';
+import { calculateDaYunStart, isDaYunForward } from '../services/daYun';
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// solar: 由公历生日自动排盘（默认）; lunar: 由农历生日排盘; manual: 手动输入四柱（高级）
+type PillarInputMode = 'solar' | 'lunar' | 'manual';
+
+interface LunarFormState {
+  year: string;
+  month: string;
+  isLeap: boolean;
+  day: string;
+  shiChen: string;   // LUNAR_SHI_CHEN 下标：0 早子 … 11 亥，12 晚子
+  exactTime: string; // 可选的具体钟点 HH:mm；为空时只知道时辰
+}
+
+// 子时拆成早子（当日 0–1 点）与晚子（当日 23–24 点），两者都属于所选的农历日
+const LUNAR_SHI_CHEN = [
+  { label: '早子时', range: '00:00-01:00', time: '00:30' },
+  ...EARTHLY_BRANCHES.slice(1).map((branch, i) => ({
+    label: `${branch}时`,
+    range: `${pad2(i * 2 + 1)}:00-${pad2(i * 2 + 3)}:00`,
+    time: `${pad2(i * 2 + 2)}:00`,
+  })),
+  { label: '晚子时', range: '23:00-24:00', time: '23:30' },
+];
+
+const shiChenOfTime = (time: string): number => {
+  const hour = Number(time.split(':')[0]);
+  return hour === 23 ? LUNAR_SHI_CHEN.length - 1 : hourBranchIndex(hour);
+};
+
+// 未填具体时间时取时辰中点作为钟点（只用于定时辰，不做真太阳时校正）
+const lunarToBirthFields = (lunar: LunarFormState): { birthDate: string; birthTime: string } | null => {
+  const solar = lunarToSolar({
+    year: Number(lunar.year),
+    month: Number(lunar.month),
+    day: Number(lunar.day),
+    isLeap: lunar.isLeap,
+  });
+  if (!solar) return null;
+  return {
+    birthDate: `${solar.year}-${pad2(solar.month)}-${pad2(solar.day)}`,
+    birthTime: lunar.exactTime || LUNAR_SHI_CHEN[Number(lunar.shiChen)].time,
+  };
+};
+
+// A birth time known only to the 时辰 is not corrected to true solar time
+const pillarOptionsOf = (data: UserInput, trueSolarTime = true): PillarOptions => ({
+  longitude: trueSolarTime ? parseLongitude(data.birthLongitude) : null,
+  ziHourRule: data.ziHourRule,
+});
+
+// Fill pillars, 起运年龄 and 第一步大运 from the solar birth moment (no-op until date and time are complete)
+const applySolarDerivations = (data: UserInput, trueSolarTime = true): UserInput => {
+  const dt = parseSolarBirthDateTime(data.birthDate, data.birthTime);
+  if (!dt) return data;
+  const { pillars } = calculateFourPillars(dt, pillarOptionsOf(data, trueSolarTime));
+  const daYun = calculateDaYunStart(dt, data.gender);
+  return {
+    ...data,
+    birthYear: String(dt.year),
+    yearPillar: pillars.year,
+    monthPillar: pillars.month,
+    dayPillar: pillars.day,
+    hourPillar: pillars.hour,
+    startAge: String(daYun.startAge),
+    firstDaYun: daYun.firstDaYun,
+  };
+};
+
+// Inline validation messages under a field: errors in red, overridable warnings in amber
+const FieldIssues = ({ issues }: { issues: InputIssue[] }) => (
+  <>
+    {issues.map((issue) => (
+      <p
+        key={issue.message}
+        className={`text-xs mt-1 text-left ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+      >
+        {issue.message}
+      </p>
+    ))}
+  </>
+);
 
 interface BaziFormProps {
   onSubmit: (data: UserInput) => void;
   isLoading: boolean;
+  onCancel?: () => void;
+  // 预填的排盘输入（如分享链接）；带公历生日时间则用自动排盘，否则按手动四柱
+  initialInput?: UserInput | null;
 }
 
-const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
-  const [formData, setFormData] = useState<UserInput>({
+const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading, onCancel, initialInput }) => {
+  const [formData, setFormData] = useState<UserInput>(() => ({
     name: '',
     gender: Gender.MALE,
     birthYear: '',
@@ -18,44 +121,134 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
     hourPillar: '',
     startAge: '',
     firstDaYun: '',
+    birthDate: '',
+    birthTime: '',
+    birthPlace: '',
+    birthLongitude: '',
+    ziHourRule: 'nextDay',
+    continuousKLine: false,
+    ...initialInput,
+  }));
+  const [pillarMode, setPillarMode] = useState<PillarInputMode>(() =>
+    !initialInput || parseSolarBirthDateTime(initialInput.birthDate, initialInput.birthTime) ? 'solar' : 'manual'
+  );
+  const [lunarForm, setLunarForm] = useState<LunarFormState>({
+    year: '',
+    month: '1',
+    isLeap: false,
+    day: '1',
+    shiChen: '0',
+    exactTime: '',
   });
+  const [overriddenWarnings, setOverriddenWarnings] = useState('');
+  // Both solar and lunar modes derive pillars from a birth moment
+  const isDateMode = pillarMode !== 'manual';
+  const hourOnly = pillarMode === 'lunar' && !lunarForm.exactTime;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  // Solar date/time changes recompute the pillars, so switching to manual mode starts from them
+  const handleSolarChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => {
+      const next = { ...prev, [name]: value };
+      // Picking a known city fills its longitude; unknown places keep the manual value
+      if (name === 'birthPlace') {
+        const city = findCity(value);
+        if (city) next.birthLongitude = String(city.longitude);
+      }
+      return applySolarDerivations(next, !hourOnly);
+    });
+  };
+
+  // Lunar input is converted to the solar birth fields, then derived like the solar mode
+  const handleLunarChange = (patch: Partial<LunarFormState>) => {
+    const next = { ...lunarForm, ...patch };
+    // An exact time picks its 时辰; picking another 时辰 drops the exact time
+    if (patch.exactTime) next.shiChen = String(shiChenOfTime(patch.exactTime));
+    else if (patch.shiChen !== undefined) next.exactTime = '';
+    const year = Number(next.year);
+    if (year >= LUNAR_MIN_YEAR && year <= LUNAR_MAX_YEAR) {
+      if (next.isLeap && getLeapMonth(year) !== Number(next.month)) next.isLeap = false;
+      const maxDay = getLunarMonthDays(year, Number(next.month), next.isLeap);
+      if (Number(next.day) > maxDay) next.day = String(maxDay);
+    }
+    setLunarForm(next);
+
+    const fields = lunarToBirthFields(next);
+    setFormData((prev) =>
+      fields ? applySolarDerivations({ ...prev, ...fields }, Boolean(next.exactTime)) : { ...prev, birthDate: '', birthTime: '' }
+    );
+  };
+
+  // 大运方向随性别变化，自动排盘模式下需要重新推算起运
+  const handleGenderChange = (gender: Gender) => {
+    setFormData((prev) =>
+      isDateMode ? applySolarDerivations({ ...prev, gender }, !hourOnly) : { ...prev, gender }
+    );
+  };
+
+  const solarCalculation = useMemo(() => {
+    const dt = parseSolarBirthDateTime(formData.birthDate, formData.birthTime);
+    return dt ? calculateFourPillars(dt, pillarOptionsOf(formData, !hourOnly)) : null;
+  }, [formData.birthDate, formData.birthTime, formData.birthLongitude, formData.ziHourRule, hourOnly]);
+
+  const daYunStart = useMemo(() => {
+    if (!isDateMode) return null;
+    const dt = parseSolarBirthDateTime(formData.birthDate, formData.birthTime);
+    return dt ? calculateDaYunStart(dt, formData.gender) : null;
+  }, [isDateMode, formData.birthDate, formData.birthTime, formData.gender]);
+
+  const lunarYear = Number(lunarForm.year);
+  const lunarYearValid = lunarYear >= LUNAR_MIN_YEAR && lunarYear <= LUNAR_MAX_YEAR;
+  const lunarLeapMonth = lunarYearValid ? getLeapMonth(lunarYear) : 0;
+  const lunarMonthDays = lunarYearValid
+    ? getLunarMonthDays(lunarYear, Number(lunarForm.month), lunarForm.isLeap)
+    : 30;
+  const lunarBirthFields = lunarToBirthFields(lunarForm);
+  // The lunar table runs to the end of lunar 2100, a few weeks into solar 2101
+  const lunarOutOfRange =
+    pillarMode === 'lunar' &&
+    lunarBirthFields !== null &&
+    !parseSolarBirthDateTime(lunarBirthFields.birthDate, lunarBirthFields.birthTime);
+
+  const issues = useMemo(() => validateUserInput(formData), [formData]);
+  const issuesFor = (field: InputField) => issues.filter((i) => i.field === field);
+  const blockingErrors = issues.filter((i) => i.severity === 'error');
+  const warnings = issues.filter((i) => i.severity === 'warning');
+  // The override only covers the exact set of warnings the user confirmed
+  const warningsKey = warnings.map((w) => w.message).join('|');
+  const warningsOverridden = warnings.length > 0 && overriddenWarnings === warningsKey;
+  const submitBlocked = blockingErrors.length > 0 || (warnings.length > 0 && !warningsOverridden) || lunarOutOfRange;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (submitBlocked) return;
+    if (isDateMode) {
+      if (!solarCalculation) return;
+      onSubmit(formData);
+    } else {
+      // Manual pillars are not tied to a solar birth moment
+      onSubmit({ ...formData, birthDate: '', birthTime: '' });
+    }
   };
 
   // Calculate direction for UI feedback
   const daYunDirectionInfo = useMemo(() => {
     if (!formData.yearPillar) return '等待输入年柱...';
-    
-    const firstChar = formData.yearPillar.trim().charAt(0);
-    const yangStems = ['甲', '丙', '戊', '庚', '壬'];
-    const yinStems = ['乙', '丁', '己', '辛', '癸'];
-    
-    let isYangYear = true; // default assume Yang if unknown
-    if (yinStems.includes(firstChar)) isYangYear = false;
-    
-    let isForward = false;
-    if (formData.gender === Gender.MALE) {
-      isForward = isYangYear; // Male Yang = Forward, Male Yin = Backward
-    } else {
-      isForward = !isYangYear; // Female Yin = Forward, Female Yang = Backward
-    }
-    
-    return isForward ? '顺行 (阳男/阴女)' : '逆行 (阴男/阳女)';
+    const forward = isDaYunForward(formData.yearPillar, formData.gender);
+    if (forward === null) return '年柱无效，无法判断';
+    return forward ? '顺行 (阳男/阴女)' : '逆行 (阴男/阳女)';
   }, [formData.yearPillar, formData.gender]);
 
   return (
     <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-xl border border-gray-100">
       <div className="text-center mb-6">
         <h2 className="text-3xl font-serif-sc font-bold text-gray-800 mb-2">八字排盘</h2>
-        <p className="text-gray-500 text-sm">请输入四柱与大运信息以生成分析</p>
+        <p className="text-gray-500 text-sm">请输入出生时间（或四柱）与大运信息以生成分析</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-5">
@@ -77,7 +270,7 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
             <div className="flex bg-gray-100 rounded-lg p-1">
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, gender: Gender.MALE })}
+                onClick={() => handleGenderChange(Gender.MALE)}
                 className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
                   formData.gender === Gender.MALE
                     ? 'bg-white text-indigo-700 shadow-sm'
@@ -88,7 +281,7 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
               </button>
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, gender: Gender.FEMALE })}
+                onClick={() => handleGenderChange(Gender.FEMALE)}
                 className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
                   formData.gender === Gender.FEMALE
                     ? 'bg-white text-pink-700 shadow-sm'
@@ -101,86 +294,375 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
           </div>
         </div>
 
-        {/* Four Pillars Manual Input */}
-        <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
-          <div className="flex items-center gap-2 mb-3 text-amber-800 text-sm font-bold">
-            <Sparkles className="w-4 h-4" />
-            <span>请输入四柱干支</span>
-          </div>
-          
-          {/* Birth Year Input - Added as requested */}
-          <div className="mb-4">
-             <label className="block text-xs font-bold text-gray-600 mb-1">出生年份 (阳历)</label>
-             <input
-                type="number"
-                name="birthYear"
-                required
-                min="1900"
-                max="2100"
-                value={formData.birthYear}
-                onChange={handleChange}
-                placeholder="如: 1990"
-                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
-              />
-          </div>
+        {/* Pillar Input Mode */}
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          <button
+            type="button"
+            onClick={() => {
+              setPillarMode('solar');
+              setFormData((prev) => applySolarDerivations(prev));
+            }}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
+              pillarMode === 'solar'
+                ? 'bg-white text-amber-700 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            公历生日排盘
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPillarMode('lunar');
+              handleLunarChange({});
+            }}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
+              pillarMode === 'lunar'
+                ? 'bg-white text-amber-700 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            农历生日排盘
+          </button>
+          <button
+            type="button"
+            onClick={() => setPillarMode('manual')}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
+              pillarMode === 'manual'
+                ? 'bg-white text-amber-700 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            手动输入四柱 (高级)
+          </button>
+        </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">年柱 (Year)</label>
-              <input
-                type="text"
-                name="yearPillar"
-                required
-                value={formData.yearPillar}
-                onChange={handleChange}
-                placeholder="如: 甲子"
-                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
-              />
+        {/* Birth Date Input (solar or lunar) */}
+        {isDateMode && (
+          <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
+            <div className="flex items-center gap-2 mb-3 text-amber-800 text-sm font-bold">
+              <CalendarDays className="w-4 h-4" />
+              <span>{pillarMode === 'lunar' ? '请输入农历生日与时辰' : '请输入公历出生时间 (北京时间)'}</span>
             </div>
-            <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">月柱 (Month)</label>
-              <input
-                type="text"
-                name="monthPillar"
-                required
-                value={formData.monthPillar}
-                onChange={handleChange}
-                placeholder="如: 丙寅"
-                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
-              />
+
+            {pillarMode === 'solar' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">出生日期</label>
+                  <input
+                    type="date"
+                    name="birthDate"
+                    required
+                    min="1900-01-01"
+                    max="2100-12-31"
+                    value={formData.birthDate}
+                    onChange={handleSolarChange}
+                    className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">出生时间</label>
+                  <input
+                    type="time"
+                    name="birthTime"
+                    required
+                    value={formData.birthTime}
+                    onChange={handleSolarChange}
+                    className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                  />
+                </div>
+              </div>
+
+            )}
+
+            {pillarMode === 'lunar' && (
+              <div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-bold text-gray-600 mb-1">农历年</label>
+                    <input
+                      type="number"
+                      required
+                      min={LUNAR_MIN_YEAR}
+                      max={LUNAR_MAX_YEAR}
+                      value={lunarForm.year}
+                      onChange={(e) => handleLunarChange({ year: e.target.value })}
+                      placeholder="如: 1990"
+                      className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-600 mb-1">农历月</label>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={lunarForm.month}
+                        onChange={(e) => handleLunarChange({ month: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                      >
+                        {LUNAR_MONTH_NAMES.map((name, i) => (
+                          <option key={name} value={i + 1}>{name}月</option>
+                        ))}
+                      </select>
+                      <label className={`flex items-center gap-1 text-xs ${lunarLeapMonth === Number(lunarForm.month) ? 'text-gray-700' : 'text-gray-300'}`}>
+                        <input
+                          type="checkbox"
+                          checked={lunarForm.isLeap}
+                          disabled={lunarLeapMonth !== Number(lunarForm.month)}
+                          onChange={(e) => handleLunarChange({ isLeap: e.target.checked })}
+                        />
+                        闰
+                      </label>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-600 mb-1">农历日</label>
+                    <select
+                      value={lunarForm.day}
+                      onChange={(e) => handleLunarChange({ day: e.target.value })}
+                      className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                    >
+                      {Array.from({ length: lunarMonthDays }, (_, i) => i + 1).map((d) => (
+                        <option key={d} value={d}>
+                          {formatLunarDay(d)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-600 mb-1">时辰</label>
+                    <select
+                      value={lunarForm.shiChen}
+                      onChange={(e) => handleLunarChange({ shiChen: e.target.value })}
+                      className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                    >
+                      {LUNAR_SHI_CHEN.map((shiChen, i) => (
+                        <option key={shiChen.label} value={i}>
+                          {shiChen.label} ({shiChen.range})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-bold text-gray-600 mb-1">具体时间 (可选，北京时间)</label>
+                    <input
+                      type="time"
+                      value={lunarForm.exactTime}
+                      onChange={(e) => handleLunarChange({ exactTime: e.target.value })}
+                      className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                    />
+                    <p className="text-xs text-amber-700/70 mt-1">
+                      {lunarForm.exactTime
+                        ? '按具体时间排盘，填写经度后校正真太阳时'
+                        : '只知时辰时按时辰排盘，不做真太阳时校正；晚子时（23 点后）仍记在所选农历日'}
+                    </p>
+                  </div>
+                </div>
+                {lunarYearValid && lunarLeapMonth > 0 && (
+                  <p className="text-xs text-amber-700/70 mt-2">农历{lunarYear}年闰{LUNAR_MONTH_NAMES[lunarLeapMonth - 1]}月</p>
+                )}
+                {lunarBirthFields ? (
+                  <div className="grid grid-cols-2 gap-2 mt-3 text-center text-xs">
+                    <div className="bg-white rounded-lg border border-amber-200 py-2">
+                      <div className="text-gray-400">农历</div>
+                      <div className="font-bold text-gray-800">
+                        {formatLunarDate({ year: lunarYear, month: Number(lunarForm.month), day: Number(lunarForm.day), isLeap: lunarForm.isLeap })}
+                        {' '}{LUNAR_SHI_CHEN[Number(lunarForm.shiChen)].label}
+                      </div>
+                    </div>
+                    <div className="bg-white rounded-lg border border-amber-200 py-2">
+                      <div className="text-gray-400">公历</div>
+                      <div className="font-bold text-gray-800">
+                        {lunarBirthFields.birthDate} {lunarForm.exactTime || LUNAR_SHI_CHEN[Number(lunarForm.shiChen)].range}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  lunarYearValid && <p className="text-xs text-red-600 mt-2">该农历日期不存在，请核对</p>
+                )}
+                {lunarOutOfRange && (
+                  <p className="flex items-start gap-1 text-xs text-red-600 mt-2">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>对应公历 {lunarBirthFields?.birthDate} 超出排盘支持范围（公历 1900–2100 年），请核对农历年份</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">出生地 (可选)</label>
+                <input
+                  type="text"
+                  name="birthPlace"
+                  list="bazi-city-list"
+                  value={formData.birthPlace}
+                  onChange={handleSolarChange}
+                  placeholder="如: 成都"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white"
+                />
+                <datalist id="bazi-city-list">
+                  {CHINA_CITIES.map((c) => (
+                    <option key={c.name} value={c.name}>{c.province}</option>
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">经度 (东经°)</label>
+                <input
+                  type="number"
+                  name="birthLongitude"
+                  min="70"
+                  max="140"
+                  step="0.01"
+                  value={formData.birthLongitude}
+                  onChange={handleSolarChange}
+                  placeholder="如: 104.07"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white"
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">日柱 (Day)</label>
-              <input
-                type="text"
-                name="dayPillar"
-                required
-                value={formData.dayPillar}
-                onChange={handleChange}
-                placeholder="如: 戊辰"
-                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
-              />
+
+            <div className="mt-3">
+              <label className="block text-xs font-bold text-gray-600 mb-1">子时换日规则</label>
+              <select
+                name="ziHourRule"
+                value={formData.ziHourRule}
+                onChange={handleSolarChange}
+                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-sm"
+              >
+                <option value="nextDay">子初换日（23 点起算次日）</option>
+                <option value="splitMidnight">区分早晚子时（0 点换日）</option>
+              </select>
             </div>
-            <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">时柱 (Hour)</label>
-              <input
-                type="text"
-                name="hourPillar"
-                required
-                value={formData.hourPillar}
-                onChange={handleChange}
-                placeholder="如: 壬戌"
-                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
-              />
+
+            {solarCalculation ? (
+              <div className="mt-4">
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    ['年柱', solarCalculation.pillars.year],
+                    ['月柱', solarCalculation.pillars.month],
+                    ['日柱', solarCalculation.pillars.day],
+                    ['时柱', solarCalculation.pillars.hour],
+                  ].map(([label, pillar]) => (
+                    <div key={label} className="bg-white rounded-lg border border-amber-200 py-2">
+                      <div className="text-xs text-gray-400">{label}</div>
+                      <div className="text-lg font-serif-sc font-bold text-gray-800">{pillar}</div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-amber-700/80 mt-2 text-center">
+                  月令起于{solarCalculation.monthJie.name}（交节 {formatBeijingTime(solarCalculation.monthJie.jd)}）
+                </p>
+                {solarCalculation.trueSolarTime && (
+                  <p className="flex items-center justify-center gap-1 text-xs text-amber-800 mt-1">
+                    <MapPin className="w-3 h-3" />
+                    真太阳时 {solarCalculation.trueSolarTime.corrected.year}-{pad2(solarCalculation.trueSolarTime.corrected.month)}-{pad2(solarCalculation.trueSolarTime.corrected.day)}{' '}
+                    {pad2(solarCalculation.trueSolarTime.corrected.hour)}:{pad2(solarCalculation.trueSolarTime.corrected.minute)}
+                    （经度差 {solarCalculation.trueSolarTime.longitudeMinutes.toFixed(1)} 分，均时差 {solarCalculation.trueSolarTime.equationOfTime.toFixed(1)} 分）
+                  </p>
+                )}
+                {solarCalculation.warnings.map((w) => (
+                  <p key={w} className="flex items-start gap-1 text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-2 py-1 mt-2">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>{w}</span>
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-amber-700/70 mt-3 text-center">
+                填写日期与时间后自动排出四柱（年柱以立春为界，月柱以节气为界）
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Four Pillars Manual Input */}
+        {pillarMode === 'manual' && (
+          <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
+            <div className="flex items-center gap-2 mb-3 text-amber-800 text-sm font-bold">
+              <Sparkles className="w-4 h-4" />
+              <span>请输入四柱干支</span>
+            </div>
+            
+            {/* Birth Year Input - Added as requested */}
+            <div className="mb-4">
+               <label className="block text-xs font-bold text-gray-600 mb-1">出生年份 (阳历)</label>
+               <input
+                  type="number"
+                  name="birthYear"
+                  required
+                  min="1900"
+                  max="2100"
+                  value={formData.birthYear}
+                  onChange={handleChange}
+                  placeholder="如: 1990"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+                />
+               <FieldIssues issues={issuesFor('birthYear')} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">年柱 (Year)</label>
+                <input
+                  type="text"
+                  name="yearPillar"
+                  required
+                  value={formData.yearPillar}
+                  onChange={handleChange}
+                  placeholder="如: 甲子"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
+                />
+                <FieldIssues issues={issuesFor('yearPillar')} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">月柱 (Month)</label>
+                <input
+                  type="text"
+                  name="monthPillar"
+                  required
+                  value={formData.monthPillar}
+                  onChange={handleChange}
+                  placeholder="如: 丙寅"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
+                />
+                <FieldIssues issues={issuesFor('monthPillar')} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">日柱 (Day)</label>
+                <input
+                  type="text"
+                  name="dayPillar"
+                  required
+                  value={formData.dayPillar}
+                  onChange={handleChange}
+                  placeholder="如: 戊辰"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
+                />
+                <FieldIssues issues={issuesFor('dayPillar')} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">时柱 (Hour)</label>
+                <input
+                  type="text"
+                  name="hourPillar"
+                  required
+                  value={formData.hourPillar}
+                  onChange={handleChange}
+                  placeholder="如: 壬戌"
+                  className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
+                />
+                <FieldIssues issues={issuesFor('hourPillar')} />
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Da Yun Manual Input */}
         <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
           <div className="flex items-center gap-2 mb-3 text-indigo-800 text-sm font-bold">
             <TrendingUp className="w-4 h-4" />
-            <span>大运排盘信息 (必填)</span>
+            <span>大运排盘信息 {daYunStart ? '(已自动推算，可修改)' : '(必填)'}</span>
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -196,6 +678,7 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
                 placeholder="如: 3"
                 className="w-full px-3 py-2 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-center font-bold"
               />
+              <FieldIssues issues={issuesFor('startAge')} />
             </div>
             <div>
               <label className="block text-xs font-bold text-gray-600 mb-1">第一步大运</label>
@@ -208,31 +691,81 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
                 placeholder="如: 丁卯"
                 className="w-full px-3 py-2 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
+              <FieldIssues issues={issuesFor('firstDaYun')} />
             </div>
           </div>
            <p className="text-xs text-indigo-600/70 mt-2 text-center">
              当前大运排序规则：
              <span className="font-bold text-indigo-900">{daYunDirectionInfo}</span>
           </p>
+          {daYunStart && (
+            <ul className="mt-3 space-y-1 text-xs text-indigo-700/80 bg-white/60 rounded-lg p-3 list-disc list-inside">
+              {daYunStart.explanation.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
         </div>
 
-        <button
-          type="submit"
-          disabled={isLoading}
-          className="w-full bg-gradient-to-r from-indigo-900 to-gray-900 hover:from-black hover:to-black text-white font-bold py-3.5 rounded-xl shadow-lg transform transition-all hover:scale-[1.01] active:scale-[0.99] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-        >
-          {isLoading ? (
-            <>
-              <Loader2 className="animate-spin h-5 w-5" />
-              <span>大师推演中(3-5分钟)</span>
-            </>
-          ) : (
-            <>
-              <Sparkles className="h-5 w-5 text-amber-300" />
-              <span>生成人生K线</span>
-            </>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={!!formData.continuousKLine}
+            onChange={(e) => setFormData((prev) => ({ ...prev, continuousKLine: e.target.checked }))}
+          />
+          K线连续模式（每年开盘价承接上一年收盘价）
+        </label>
+
+        {(blockingErrors.length > 0 || warnings.length > 0) && (
+          <div className={`p-3 rounded-lg border text-xs ${blockingErrors.length > 0 ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+            <div className="flex items-center gap-2 font-bold">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {blockingErrors.length > 0
+                ? `有 ${blockingErrors.length} 处干支格式错误，请修正后再提交`
+                : `有 ${warnings.length} 处四柱/大运不一致，请核对`}
+            </div>
+            {blockingErrors.length === 0 && (
+              <label className="flex items-center gap-2 mt-2">
+                <input
+                  type="checkbox"
+                  checked={warningsOverridden}
+                  onChange={(e) => setOverriddenWarnings(e.target.checked ? warningsKey : '')}
+                />
+                我已核对，确认按当前输入排盘
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isLoading || submitBlocked}
+            className="flex-1 bg-gradient-to-r from-indigo-900 to-gray-900 hover:from-black hover:to-black text-white font-bold py-3.5 rounded-xl shadow-lg transform transition-all hover:scale-[1.01] active:scale-[0.99] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="animate-spin h-5 w-5" />
+                <span>大师推演中(3-5分钟)</span>
+              </>
+            ) : (
+              <>
+                <Sparkles className="h-5 w-5 text-amber-300" />
+                <span>生成人生K线</span>
+              </>
+            )}
+          </button>
+          {isLoading && onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 rounded-xl border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-bold flex items-center gap-1"
+            >
+              <X className="h-4 w-4" />
+              <span>取消</span>
+            </button>
           )}
-        </button>
+        </div>
       </form>
     </div>
   );
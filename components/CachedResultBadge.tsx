@@ -0,0 +1,27 @@
+import React from 'react';
+import { Database, RefreshCw } from 'lucide-react';
+
+interface CachedResultBadgeProps {
+  createdAt: string;
+  onRegenerate: () => void;
+}
+
+// 结果来自本机缓存时显示生成时间，并允许跳过缓存重新推演
+const CachedResultBadge: React.FC<CachedResultBadgeProps> = ({ createdAt, onRegenerate }) => (
+  <div className="flex items-center gap-3 text-xs">
+    <span className="flex items-center gap-1 bg-gray-100 text-gray-600 px-2.5 py-1 rounded-full">
+      <Database className="w-3.5 h-3.5" />
+      缓存结果 · {new Date(createdAt).toLocaleString('zh-CN')}
+    </span>
+    <button
+      onClick={onRegenerate}
+      className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+      title="忽略缓存，重新调用模型生成"
+    >
+      <RefreshCw className="w-3.5 h-3.5" />
+      重新生成
+    </button>
+  </div>
+);
+
+export default CachedResultBadge;
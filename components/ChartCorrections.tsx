@@ -0,0 +1,110 @@
+import React from 'react';
+import { ChartCorrection, ChartIntegrityWarning, SchemaIssue } from '../types';
+import { ShieldCheck } from 'lucide-react';
+import SchemaIssueList from './SchemaIssueList';
+
+interface ChartCorrectionsProps {
+  corrections: ChartCorrection[];
+  integrityWarnings?: ChartIntegrityWarning[];
+  validationIssues?: SchemaIssue[];
+}
+
+const KIND_LABELS: Record<ChartCorrection['kind'], string> = {
+  year: '年份',
+  ganZhi: '流年干支',
+  daYun: '大运',
+  missing: '缺失',
+  outOfRange: '超出 1-100 岁',
+};
+
+const INTEGRITY_LABELS: Record<ChartIntegrityWarning['kind'], string> = {
+  nonNumeric: '非数值',
+  clamped: '超出 0-100',
+  highBelowBody: '最高价低于实体',
+  lowAboveBody: '最低价高于实体',
+  duplicateAge: '重复年龄已剔除',
+  continuity: '开盘承接上年收盘',
+};
+
+const FIELD_LABELS: Record<NonNullable<ChartIntegrityWarning['field']>, string> = {
+  open: '开盘',
+  close: '收盘',
+  high: '最高',
+  low: '最低',
+  score: '评分',
+};
+
+const ChartCorrections: React.FC<ChartCorrectionsProps> = ({ corrections, integrityWarnings = [], validationIssues = [] }) => {
+  if (corrections.length === 0 && integrityWarnings.length === 0 && validationIssues.length === 0) return null;
+
+  const fixes = corrections.filter((c) => c.kind === 'year' || c.kind === 'ganZhi' || c.kind === 'daYun');
+  const missingAges = corrections.filter((c) => c.kind === 'missing').map((c) => c.age);
+  const droppedAges = corrections.filter((c) => c.kind === 'outOfRange').map((c) => c.age);
+
+  return (
+    <details className="bg-indigo-50/60 border border-indigo-100 rounded-xl px-4 py-3 text-sm text-indigo-900">
+      <summary className="cursor-pointer flex items-center gap-2 font-medium">
+        <ShieldCheck className="w-4 h-4 text-indigo-600" />
+        <span>
+          已按本地排盘校正 {fixes.length} 处流年/大运数据
+          {missingAges.length > 0 && `，${missingAges.length} 个年龄缺失`}
+          {droppedAges.length > 0 && `，剔除 ${droppedAges.length} 个无效数据点`}
+          {integrityWarnings.length > 0 && `；修复 ${integrityWarnings.length} 处K线数值`}
+          {validationIssues.length > 0 && `；${validationIssues.length} 处数据未通过校验`}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-2 text-xs text-gray-600">
+        {missingAges.length > 0 && (
+          <p>
+            <span className="font-bold text-red-600">缺失年龄：</span>
+            {missingAges.join('、')} 岁
+          </p>
+        )}
+        {droppedAges.length > 0 && (
+          <p>
+            <span className="font-bold text-gray-700">已剔除：</span>
+            {droppedAges.join('、')} 岁
+          </p>
+        )}
+        {fixes.length > 0 && (
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 max-h-[240px] overflow-y-auto custom-scrollbar">
+            {fixes.map((c, i) => (
+              <li key={`${c.age}-${c.kind}-${i}`}>
+                {c.age}岁 {KIND_LABELS[c.kind]}：
+                <span className="line-through text-gray-400">{c.from === undefined || c.from === '' ? '空' : String(c.from)}</span>
+                {' → '}
+                <span className="font-bold text-indigo-700">{String(c.to)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {integrityWarnings.length > 0 && (
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 max-h-[240px] overflow-y-auto custom-scrollbar pt-2 border-t border-indigo-100">
+            {integrityWarnings.map((w, i) => (
+              <li key={`${w.age}-${w.kind}-${w.field}-${i}`}>
+                {w.age}岁 {INTEGRITY_LABELS[w.kind]}
+                {w.field && (
+                  <>
+                    {' '}{FIELD_LABELS[w.field]}：
+                    <span className="line-through text-gray-400">{String(w.from)}</span>
+                    {' → '}
+                    <span className="font-bold text-indigo-700">{w.to}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {validationIssues.length > 0 && (
+          <div className="pt-2 border-t border-indigo-100">
+            <p className="font-bold text-gray-700 mb-1">校验遗留问题：</p>
+            <SchemaIssueList issues={validationIssues} />
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ChartCorrections;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Library, X, Search, Pencil, Trash2, Check } from 'lucide-react';
+import {
+  SavedChart,
+  deleteSavedChart,
+  listSavedCharts,
+  matchesChartQuery,
+  renameSavedChart,
+} from '../services/chartLibrary';
+
+// 由 App 按需挂载，每次打开都重新读取命盘库
+interface ChartLibraryProps {
+  currentId: string | null;
+  onOpen: (chart: SavedChart) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const ChartLibrary: React.FC<ChartLibraryProps> = ({ currentId, onOpen, onDeleted, onClose }) => {
+  const [charts, setCharts] = useState<SavedChart[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const reload = () => listSavedCharts().then(setCharts);
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const handleRename = async () => {
+    if (!editing) return;
+    await renameSavedChart(editing.id, editing.name);
+    setEditing(null);
+    reload();
+  };
+
+  const handleDelete = async (chart: SavedChart) => {
+    if (!window.confirm(`删除「${chart.name}」？此操作无法撤销。`)) return;
+    await deleteSavedChart(chart.id);
+    onDeleted(chart.id);
+    reload();
+  };
+
+  const visible = (charts || []).filter((c) => matchesChartQuery(c, query));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 flex justify-end" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="chart-library-title"
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b">
+          <h2 id="chart-library-title" className="text-xl font-bold font-serif-sc text-gray-800 flex items-center gap-2">
+            <Library className="w-5 h-5 text-indigo-600" />
+            命盘库
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="关闭">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索名称、干支或模型"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar divide-y">
+          {charts && visible.length === 0 && (
+            <li className="px-5 py-8 text-center text-sm text-gray-400">
+              {charts.length === 0 ? '还没有保存的命盘，生成结果后会自动保存在这里。' : '没有匹配的命盘。'}
+            </li>
+          )}
+          {visible.map((chart) => (
+            <li key={chart.id} className={`px-5 py-3 ${chart.id === currentId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+              {editing?.id === chart.id ? (
+                <form
+                  className="flex items-center gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename();
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    onChange={(e) => setEditing({ id: chart.id, name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button type="submit" className="text-indigo-600 hover:text-indigo-800" aria-label="保存名称">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <button type="button" onClick={() => onOpen(chart)} className="flex-1 min-w-0 text-left">
+                    <div className="font-bold text-gray-800 truncate">{chart.name}</div>
+                    <div className="text-xs text-gray-500 font-serif-sc">
+                      {[chart.input.yearPillar, chart.input.monthPillar, chart.input.dayPillar, chart.input.hourPillar].join(' ')}
+                    </div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {new Date(chart.createdAt).toLocaleString('zh-CN')} · {chart.modelId}
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-2 pt-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ id: chart.id, name: chart.name })}
+                      className="text-gray-400 hover:text-indigo-600"
+                      aria-label="重命名"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(chart)}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="删除"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default ChartLibrary;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { GenerationAttempt } from '../types';
+import { AnalysisError, ERROR_GUIDE } from '../services/analysisErrors';
+import SchemaIssueList from './SchemaIssueList';
+import GenerationAttempts from './GenerationAttempts';
+import { AlertCircle, Check, Copy, Lightbulb } from 'lucide-react';
+
+interface ErrorPanelProps {
+  error: AnalysisError;
+  attempts?: GenerationAttempt[];
+}
+
+const REQUEST_LABELS: Record<string, string> = {
+  provider: '服务商',
+  model: '模型',
+  baseUrl: 'Base URL',
+  task: '请求',
+  status: 'HTTP 状态',
+  stopReason: '结束原因',
+  attempts: '尝试次数',
+  startedAt: '开始时间',
+  durationMs: '耗时 (ms)',
+};
+
+// 失败说明 + 建议操作；技术细节折叠在「诊断信息」中，可一键复制
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, attempts = [] }) => {
+  const [copied, setCopied] = useState(false);
+  const guide = ERROR_GUIDE[error.kind];
+  const { detail, rawOutput, parsed, issues = [], request = {} } = error.diagnostics;
+  const requestRows = Object.entries(request).filter(([, value]) => value !== undefined && value !== '');
+
+  const handleCopy = async () => {
+    const report = {
+      kind: error.kind,
+      message: error.message,
+      ...error.diagnostics,
+      attempts,
+      userAgent: navigator.userAgent,
+    };
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('复制诊断信息失败：', e);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full space-y-3">
+      <div className="bg-red-50 border border-red-100 rounded-lg px-4 py-3 text-red-700 space-y-2">
+        <div className="flex items-center gap-2 font-bold">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>{guide.title}</span>
+        </div>
+        <p className="text-sm">{guide.message}</p>
+        <p className="text-sm flex items-start gap-2 text-red-800">
+          <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{guide.action}</span>
+        </p>
+      </div>
+
+      <details className="bg-white border border-gray-200 rounded-lg px-4 py-3 text-sm text-gray-700">
+        <summary className="cursor-pointer font-medium flex items-center justify-between gap-2">
+          <span>诊断信息</span>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              handleCopy();
+            }}
+            className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            {copied ? '已复制' : '复制诊断信息'}
+          </button>
+        </summary>
+
+        <div className="mt-3 space-y-4">
+          <p className="text-xs font-mono text-gray-500 break-all">{error.message}</p>
+
+          {requestRows.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-gray-500 mb-1">请求信息</h4>
+              <table className="text-xs">
+                <tbody>
+                  {requestRows.map(([key, value]) => (
+                    <tr key={key}>
+                      <td className="pr-4 text-gray-500 align-top">{REQUEST_LABELS[key] || key}</td>
+                      <td className="font-mono break-all">{String(value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-gray-500 mb-1">校验问题（{issues.length}）</h4>
+              <SchemaIssueList issues={issues} />
+            </div>
+          )}
+
+          {parsed !== undefined && (
+            <div>
+              <h4 className="text-xs font-bold text-gray-500 mb-1">解析结果</h4>
+              <pre className="text-xs bg-gray-50 rounded p-2 max-h-[240px] overflow-auto custom-scrollbar whitespace-pre-wrap break-all">
+                {JSON.stringify(parsed, null, 2)}
+              </pre>
+            </div>
+          )}
+
+          {rawOutput && (
+            <div>
+              <h4 className="text-xs font-bold text-gray-500 mb-1">模型原始输出</h4>
+              <pre className="text-xs bg-gray-50 rounded p-2 max-h-[240px] overflow-auto custom-scrollbar whitespace-pre-wrap break-all">
+                {rawOutput}
+              </pre>
+            </div>
+          )}
+
+          {detail && detail !== error.message && (
+            <div>
+              <h4 className="text-xs font-bold text-gray-500 mb-1">错误详情</h4>
+              <pre className="text-xs bg-gray-50 rounded p-2 whitespace-pre-wrap break-all">{detail}</pre>
+            </div>
+          )}
+        </div>
+      </details>
+
+      <GenerationAttempts attempts={attempts} />
+    </div>
+  );
+};
+
+export default ErrorPanel;
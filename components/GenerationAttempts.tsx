@@ -0,0 +1,56 @@
+import React from 'react';
+import { GenerationAttempt } from '../types';
+import { RotateCcw } from 'lucide-react';
+
+interface GenerationAttemptsProps {
+  attempts: GenerationAttempt[];
+  defaultOpen?: boolean;
+}
+
+const NEXT_LABELS: Record<GenerationAttempt['next'], string> = {
+  backoff: '等待后重试',
+  repair: '已发送修正请求',
+  giveUp: '放弃',
+  acceptPartial: '保留部分结果',
+};
+
+const NEXT_STYLES: Record<GenerationAttempt['next'], string> = {
+  backoff: 'text-amber-700',
+  repair: 'text-indigo-700',
+  giveUp: 'text-red-600',
+  acceptPartial: 'text-gray-600',
+};
+
+const GenerationAttempts: React.FC<GenerationAttemptsProps> = ({ attempts, defaultOpen = false }) => {
+  if (attempts.length === 0) return null;
+
+  const gaveUp = attempts.filter((a) => a.next === 'giveUp').length;
+
+  return (
+    <details open={defaultOpen} className="bg-amber-50/60 border border-amber-100 rounded-xl px-4 py-3 text-sm text-amber-900">
+      <summary className="cursor-pointer flex items-center gap-2 font-medium">
+        <RotateCcw className="w-4 h-4 text-amber-600" />
+        <span>
+          自动重试 {attempts.length} 次
+          {gaveUp > 0 && `，${gaveUp} 个请求最终失败`}
+        </span>
+      </summary>
+
+      <ul className="mt-3 space-y-1 text-xs text-gray-600 max-h-[240px] overflow-y-auto custom-scrollbar">
+        {attempts.map((a, i) => (
+          <li key={`${a.task}-${a.attempt}-${i}`} className="flex flex-wrap gap-x-2">
+            <span className="font-bold text-gray-700">{a.task}</span>
+            <span>第 {a.attempt}/{a.maxAttempts} 次</span>
+            <span className={`font-medium ${NEXT_STYLES[a.next]}`}>
+              {NEXT_LABELS[a.next]}
+              {a.next === 'backoff' && a.delayMs !== undefined && `（${(a.delayMs / 1000).toFixed(1)} 秒）`}
+            </span>
+            <span className="w-full text-gray-400 truncate" title={a.error}>{a.error}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default GenerationAttempts;
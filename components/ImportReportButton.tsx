@@ -0,0 +1,41 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { ReportFile, parseReportFile } from '../services/reportFile';
+
+interface ImportReportButtonProps {
+  onImported: (file: ReportFile) => void;
+  onError: (message: string) => void;
+}
+
+// 选择导出的 JSON 报告文件，校验并迁移后交给 App 渲染
+const ImportReportButton: React.FC<ImportReportButtonProps> = ({ onImported, onError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImported(parseReportFile(await file.text()));
+    } catch (err: any) {
+      onError(`导入「${file.name}」失败：${err.message}`);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 font-medium"
+        title="导入报告文件"
+      >
+        <Upload className="w-5 h-5" />
+        <span className="hidden md:inline">导入</span>
+      </button>
+      <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleChange} />
+    </>
+  );
+};
+
+export default ImportReportButton;
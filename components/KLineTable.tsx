@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { KLinePoint } from '../types';
+import { ArrowDown, ArrowUp, ArrowUpDown, FileSpreadsheet, Table2 } from 'lucide-react';
+import {
+  EMPTY_FILTERS,
+  TABLE_COLUMNS,
+  TableColumnKey,
+  TableFilters,
+  TableSort,
+  TrendFilter,
+  daYunOptions,
+  exportCsv,
+  exportXlsx,
+  filterPoints,
+  isUpYear,
+  sortPoints,
+} from '../services/chartTable';
+
+interface KLineTableProps {
+  data: KLinePoint[];
+  exportName?: string;
+}
+
+const TREND_LABELS: Record<TrendFilter, string> = { all: '全部', up: '吉 (涨)', down: '凶 (跌)' };
+
+const selectClass = 'px-2 py-1.5 border border-gray-300 rounded-lg bg-white text-sm outline-none focus:ring-2 focus:ring-indigo-500';
+
+const parseAge = (value: string): number | null => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : null);
+
+// 全部流年的明细表：可按列排序，按大运 / 年龄段 / 涨跌筛选，并导出当前视图
+const KLineTable: React.FC<KLineTableProps> = ({ data, exportName = '人生K线' }) => {
+  const [filters, setFilters] = useState<TableFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<TableSort>({ key: 'age', direction: 'asc' });
+
+  const daYuns = useMemo(() => daYunOptions(data), [data]);
+  const rows = useMemo(() => sortPoints(filterPoints(data, filters), sort), [data, filters, sort]);
+
+  const toggleSort = (key: TableColumnKey) =>
+    setSort((prev) => ({ key, direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
+
+  const updateFilter = <K extends keyof TableFilters>(key: K, value: TableFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 md:p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-bold text-gray-800 font-serif-sc flex items-center gap-2">
+          <Table2 className="w-5 h-5 text-indigo-600" />
+          流年明细
+          <span className="text-xs font-sans font-normal text-gray-400">
+            {rows.length}/{data.length} 年
+          </span>
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          <button
+            onClick={() => exportCsv(rows, exportName)}
+            className="flex items-center gap-1 text-gray-500 hover:text-indigo-600 font-medium"
+            title="导出 CSV（UTF-8，Excel 可直接打开）"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportXlsx(rows, exportName)}
+            className="flex items-center gap-1 text-gray-500 hover:text-indigo-600 font-medium"
+            title="导出 Excel 工作簿"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            XLSX
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          大运
+          <select value={filters.daYun} onChange={(e) => updateFilter('daYun', e.target.value)} className={selectClass}>
+            <option value="">全部</option>
+            {daYuns.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          年龄
+          <input
+            type="number"
+            min={1}
+            value={filters.ageFrom ?? ''}
+            onChange={(e) => updateFilter('ageFrom', parseAge(e.target.value))}
+            placeholder="从"
+            className={`${selectClass} w-20`}
+          />
+          –
+          <input
+            type="number"
+            min={1}
+            value={filters.ageTo ?? ''}
+            onChange={(e) => updateFilter('ageTo', parseAge(e.target.value))}
+            placeholder="到"
+            className={`${selectClass} w-20`}
+          />
+        </label>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {(Object.keys(TREND_LABELS) as TrendFilter[]).map((trend) => (
+            <button
+              key={trend}
+              onClick={() => updateFilter('trend', trend)}
+              className={`px-3 py-1.5 ${filters.trend === trend ? 'bg-indigo-600 text-white' : 'bg-white hover:bg-gray-50'}`}
+            >
+              {TREND_LABELS[trend]}
+            </button>
+          ))}
+        </div>
+        {filters !== EMPTY_FILTERS && (
+          <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-gray-400 hover:text-indigo-600">
+            清除筛选
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-[560px] overflow-auto custom-scrollbar border border-gray-100 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-50 text-gray-500 text-xs">
+            <tr>
+              {TABLE_COLUMNS.map((col) => {
+                const SortIcon = sort.key !== col.key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={col.key}
+                    onClick={() => toggleSort(col.key)}
+                    className={`px-3 py-2 font-medium cursor-pointer select-none whitespace-nowrap ${col.numeric ? 'text-right' : 'text-left'}`}
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {col.label}
+                      <SortIcon className={`w-3 h-3 ${sort.key === col.key ? 'text-indigo-600' : 'opacity-40'}`} />
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((p) => (
+              <tr key={p.age} className="align-top hover:bg-gray-50">
+                <td className="px-3 py-2 text-right font-mono">{p.age}</td>
+                <td className="px-3 py-2 text-right font-mono">{p.year}</td>
+                <td className="px-3 py-2 font-serif-sc whitespace-nowrap">{p.ganZhi}</td>
+                <td className="px-3 py-2 font-serif-sc whitespace-nowrap text-indigo-600">{p.daYun}</td>
+                <td className="px-3 py-2 text-right font-mono">{p.open}</td>
+                <td className={`px-3 py-2 text-right font-mono font-bold ${isUpYear(p) ? 'text-green-600' : 'text-red-600'}`}>{p.close}</td>
+                <td className="px-3 py-2 text-right font-mono">{p.high}</td>
+                <td className="px-3 py-2 text-right font-mono">{p.low}</td>
+                <td className="px-3 py-2 text-right font-mono">{p.score}</td>
+                <td className="px-3 py-2 text-gray-600 min-w-[280px]">{p.reason}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={TABLE_COLUMNS.length} className="px-3 py-8 text-center text-gray-400">没有符合筛选条件的年份</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default KLineTable;
@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ComposedChart,
   Bar,
+  Brush,
+  Cell,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -11,15 +14,98 @@ import {
   Label
 } from 'recharts';
 import { KLinePoint } from '../types';
+import { TIMELINE_MAX_AGE } from '../services/timeline';
+import { buildChartImage, exportChartPng, exportChartSvg, findChartSvg } from '../services/chartExport';
+import {
+  INDICATOR_COLORS,
+  IndicatorPoint,
+  OVERLAYS,
+  OverlayKey,
+  RSI_BANDS,
+  SUB_PANELS,
+  SubPanelKey,
+  withIndicators,
+} from '../services/indicators';
+import {
+  ChartRange,
+  DaYunCandle,
+  Timeframe,
+  aggregateDaYun,
+  clampRange,
+  fullRange,
+  panRange,
+  zoomRange,
+} from '../services/chartNavigation';
+import { Download, Maximize2 } from 'lucide-react';
+import YearDetailPanel from './YearDetailPanel';
+
+export const CHART_TITLE = '人生流年大运K线图';
 
 interface LifeKLineChartProps {
   data: KLinePoint[];
+  streaming?: boolean; // 生成中：预留 1-100 岁的位置，K线到达即落位，不做入场动画
+  exportName?: string; // 导出图片的文件名与副标题（如命盘名称）；生成中不显示导出按钮
 }
 
-const CustomTooltip = ({ active, payload }: any) => {
-  if (active && payload && payload.length) {
+// 主图叠加线：一个指标可对应多条线（布林带为上中下三轨）
+const OVERLAY_LINES: { overlay: OverlayKey; dataKey: keyof IndicatorPoint; label: string; dashed?: boolean; step?: boolean }[] = [
+  { overlay: 'ma5', dataKey: 'ma5', label: 'MA5' },
+  { overlay: 'ma10', dataKey: 'ma10', label: 'MA10' },
+  { overlay: 'ma20', dataKey: 'ma20', label: 'MA20' },
+  { overlay: 'boll', dataKey: 'bollUpper', label: '布林上轨', dashed: true },
+  { overlay: 'boll', dataKey: 'bollMid', label: '布林中轨' },
+  { overlay: 'boll', dataKey: 'bollLower', label: '布林下轨', dashed: true },
+  { overlay: 'daYunAvg', dataKey: 'daYunAvg', label: '大运均线', step: true },
+];
+
+const overlayColor = (key: OverlayKey) => OVERLAYS.find((o) => o.key === key)!.color;
+
+// Values of the indicators currently on screen, for the tooltip
+const tooltipIndicators = (data: IndicatorPoint, overlays: OverlayKey[], subPanel: SubPanelKey) => {
+  const rows: { label: string; color: string; value: number | null }[] = OVERLAY_LINES
+    .filter((line) => overlays.includes(line.overlay))
+    .map((line) => ({ label: line.label, color: overlayColor(line.overlay), value: data[line.dataKey] as number | null }));
+  if (subPanel === 'macd') {
+    rows.push(
+      { label: 'DIF', color: INDICATOR_COLORS.macdDif, value: data.macdDif },
+      { label: 'DEA', color: INDICATOR_COLORS.macdDea, value: data.macdDea },
+      { label: 'MACD', color: '#6b7280', value: data.macdHist }
+    );
+  }
+  if (subPanel === 'rsi') rows.push({ label: 'RSI', color: INDICATOR_COLORS.rsi, value: data.rsi });
+  return rows;
+};
+
+// 大运线的一根K线代表整步大运
+const DaYunTooltip = ({ candle }: { candle: DaYunCandle }) => (
+  <div className="bg-white/95 backdrop-blur-sm p-4 rounded-xl shadow-2xl border border-gray-200 z-50 w-[280px]">
+    <p className="text-lg font-bold text-gray-800 font-serif-sc">{candle.label}大运</p>
+    <p className="text-sm text-gray-500 mb-3">
+      {candle.startYear}–{candle.endYear} 年（{candle.startAge}–{candle.endAge} 岁，共 {candle.years} 年）
+    </p>
+    <div className="grid grid-cols-4 gap-2 text-xs text-gray-500 mb-3 bg-gray-50 p-2 rounded">
+      {([['开盘', candle.open], ['收盘', candle.close], ['最高', candle.high], ['最低', candle.low]] as const).map(([label, value]) => (
+        <div key={label} className="text-center">
+          <span className="block scale-90">{label}</span>
+          <span className="font-mono text-gray-700 font-bold">{value}</span>
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-gray-600">
+      吉 {candle.upYears} 年 / 凶 {candle.years - candle.upYears} 年 · 平均评分 {candle.score}
+    </p>
+    <p className="text-xs text-indigo-600 mt-2">点击查看这步大运的逐年K线</p>
+  </div>
+);
+
+const CustomTooltip = ({ active, payload, overlays = [], subPanel = 'none' }: any) => {
+  if (active && payload && payload.length && payload[0].payload.endAge !== undefined) {
+    return <DaYunTooltip candle={payload[0].payload} />;
+  }
+  if (active && payload && payload.length && payload[0].payload.bodyRange) {
     const data = payload[0].payload as KLinePoint;
     const isUp = data.close >= data.open;
+    const indicators = 'ma5' in data ? tooltipIndicators(data as IndicatorPoint, overlays, subPanel) : [];
     return (
       <div className="bg-white/95 backdrop-blur-sm p-5 rounded-xl shadow-2xl border border-gray-200 z-50 w-[320px] md:w-[400px]">
         {/* Header */}
@@ -57,6 +143,20 @@ const CustomTooltip = ({ active, payload }: any) => {
           </div>
         </div>
 
+        {indicators.length > 0 && (
+          <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs mb-4">
+            {indicators.map((row) => (
+              <span key={row.label} className="flex items-center justify-between gap-1">
+                <span className="flex items-center gap-1 text-gray-500">
+                  <span className="w-2 h-0.5" style={{ backgroundColor: row.color }} />
+                  {row.label}
+                </span>
+                <span className="font-mono text-gray-700">{row.value ?? '—'}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Detailed Reason */}
         <div className="text-sm text-gray-700 leading-relaxed text-justify max-h-[200px] overflow-y-auto custom-scrollbar">
           {data.reason}
@@ -69,7 +169,10 @@ const CustomTooltip = ({ active, payload }: any) => {
 
 // CandleShape with cleaner wicks
 const CandleShape = (props: any) => {
-  const { x, y, width, height, payload, yAxis } = props;
+  const { x, y, width, height, payload, yAxis, selectedAge } = props;
+
+  // Placeholder slot for an age that has not streamed in yet
+  if (!payload.bodyRange) return null;
 
   const isUp = payload.close >= payload.open;
   const color = isUp ? '#22c55e' : '#ef4444'; // Green Up, Red Down
@@ -93,8 +196,25 @@ const CandleShape = (props: any) => {
   // Enforce minimum body height so flat doji candles are visible
   const renderHeight = height < 1 ? 1 : height;
 
+  // The pinned year gets a ring; chartExport strips .chart-selection from images
+  const selected = payload.endAge === undefined && payload.age === selectedAge;
+
   return (
-    <g>
+    <g style={{ cursor: payload.endAge !== undefined ? 'pointer' : undefined }}>
+      {selected && (
+        <rect
+          className="chart-selection"
+          x={x - 3}
+          y={highY - 4}
+          width={width + 6}
+          height={lowY - highY + 8}
+          rx={3}
+          fill="#6366f1"
+          fillOpacity={0.08}
+          stroke="#6366f1"
+          strokeWidth={1.5}
+        />
+      )}
       <line x1={center} y1={highY} x2={center} y2={lowY} stroke={strokeColor} strokeWidth={1.5} />
       <rect 
         x={x} 
@@ -109,84 +229,486 @@ const CandleShape = (props: any) => {
   );
 };
 
-const LifeKLineChart: React.FC<LifeKLineChartProps> = ({ data }) => {
-  const transformedData = data.map(d => ({
-    ...d,
-    bodyRange: [Math.min(d.open, d.close), Math.max(d.open, d.close)],
-  }));
+// 主图绘图区左右的留白（Y 轴宽度 / 右 margin），用于把指针位置换算到K线上
+const PLOT_LEFT = 60;
+const PLOT_RIGHT = 10;
+const WHEEL_ZOOM_STEP = 1.15;
+const DRAG_THRESHOLD = 4; // px；小于此距离视为点击
+
+const withBody = <T extends KLinePoint>(d: T) => ({
+  ...d,
+  bodyRange: [Math.min(d.open, d.close), Math.max(d.open, d.close)],
+});
+
+const plotWidth = (el: HTMLElement) => Math.max(el.clientWidth - PLOT_LEFT - PLOT_RIGHT, 1);
+
+// 0–1 position of a clientX within the plot area
+const plotAnchor = (el: HTMLElement, clientX: number) =>
+  (clientX - el.getBoundingClientRect().left - PLOT_LEFT) / plotWidth(el);
+
+const LifeKLineChart: React.FC<LifeKLineChartProps> = ({ data, streaming = false, exportName }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [overlays, setOverlays] = useState<OverlayKey[]>([]);
+  const [subPanel, setSubPanel] = useState<SubPanelKey>('none');
+
+  const toggleOverlay = (key: OverlayKey) =>
+    setOverlays((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  const handleExport = async (format: 'png' | 'svg') => {
+    const svg = findChartSvg(containerRef.current);
+    if (!svg) return;
+    const image = buildChartImage(svg, { title: CHART_TITLE, subtitle: exportName });
+    const baseName = exportName ? `${CHART_TITLE}-${exportName}` : CHART_TITLE;
+    try {
+      setExportError(null);
+      if (format === 'png') await exportChartPng(image, baseName);
+      else exportChartSvg(image, baseName);
+    } catch (e: any) {
+      console.error('导出K线图失败：', e);
+      setExportError(e?.message || '导出失败');
+    }
+  };
+
+  const [timeframe, setTimeframe] = useState<Timeframe>('year');
+  // 年线的可见区间；null 表示全部
+  const [range, setRange] = useState<ChartRange | null>(null);
+
+  // Indicators need the full series, so they are only computed once streaming is done
+  const yearRows = useMemo(() => {
+    const candles = (streaming ? data : withIndicators(data)).map(withBody);
+    return streaming
+      ? Array.from({ length: TIMELINE_MAX_AGE }, (_, i) => candles.find(c => c.age === i + 1) || { age: i + 1 })
+      : candles;
+  }, [data, streaming]);
+  const daYunRows = useMemo(() => aggregateDaYun(data).map(withBody), [data]);
+
+  // 固定显示详情的年份（点击K线选中）
+  const [selectedAge, setSelectedAge] = useState<number | null>(null);
+
+  // A new chart starts zoomed out on the yearly view, with nothing pinned
+  useEffect(() => {
+    setRange(null);
+    setTimeframe('year');
+    setSelectedAge(null);
+  }, [data]);
+
+  // Zoom, pan and the 大运 view are only available once the chart is complete
+  const navigable = !streaming;
+  const isDaYunView = navigable && timeframe === 'daYun';
+  const total = yearRows.length;
+  const view = range ? clampRange(range, total) : fullRange(total);
+  const zoomed = view.start > 0 || view.end < total - 1;
+  const visibleData: any[] = isDaYunView ? daYunRows : navigable ? yearRows.slice(view.start, view.end + 1) : yearRows;
+  const showSubPanel = navigable && !isDaYunView && subPanel !== 'none';
+  // About 10 age labels whatever the zoom; every 大运 is labelled
+  const tickInterval = isDaYunView ? 0 : Math.max(Math.ceil(visibleData.length / 10) - 1, 0);
+  const hasData = data.length > 0;
 
   // Identify Da Yun change points to draw reference lines
+  const visibleAges = new Set(visibleData.map((d) => d.age));
   const daYunChanges = data.filter((d, i) => {
+    if (!visibleAges.has(d.age)) return false;
     if (i === 0) return true;
     return d.daYun !== data[i-1].daYun;
   });
 
+  // Native listeners and gesture handlers read the latest view through refs
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const yearViewActive = navigable && !isDaYunView;
+  const yearViewRef = useRef(yearViewActive);
+  yearViewRef.current = yearViewActive;
+
+  // React's wheel listener is passive, so preventDefault needs a native one
+  useEffect(() => {
+    const el = plotRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!yearViewRef.current) return;
+      e.preventDefault();
+      const current = viewRef.current;
+      if (Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        // Horizontal trackpad swipes pan
+        const span = current.end - current.start + 1;
+        setRange(panRange(current, Math.round((e.deltaX / plotWidth(el)) * span), total));
+      } else {
+        const factor = e.deltaY > 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+        setRange(zoomRange(current, factor, plotAnchor(el, e.clientX), total));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [total, hasData]);
+
+  // Active pointers (id → clientX); one pointer pans, two pinch-zoom
+  const pointersRef = useRef(new Map<number, number>());
+  const gestureRef = useRef<{ x: number; distance: number; view: ChartRange; moved: boolean } | null>(null);
+
+  const startGesture = () => {
+    const xs = Array.from(pointersRef.current.values());
+    gestureRef.current = {
+      x: xs[0],
+      distance: xs.length > 1 ? Math.abs(xs[0] - xs[1]) : 0,
+      view: viewRef.current,
+      moved: gestureRef.current?.moved ?? false,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!yearViewActive || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    if (pointersRef.current.size === 0) gestureRef.current = null;
+    pointersRef.current.set(e.pointerId, e.clientX);
+    startGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const el = plotRef.current;
+    const gesture = gestureRef.current;
+    if (!el || !gesture || !pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, e.clientX);
+    const xs = Array.from(pointersRef.current.values());
+
+    if (xs.length > 1) {
+      const distance = Math.abs(xs[0] - xs[1]);
+      if (gesture.distance > 0 && distance > 0) {
+        gesture.moved = true;
+        setRange(zoomRange(gesture.view, gesture.distance / distance, plotAnchor(el, (xs[0] + xs[1]) / 2), total));
+      }
+      return;
+    }
+    const dx = xs[0] - gesture.x;
+    if (!gesture.moved && Math.abs(dx) < DRAG_THRESHOLD) return;
+    gesture.moved = true;
+    const span = gesture.view.end - gesture.view.start + 1;
+    setRange(panRange(gesture.view, -Math.round((dx / plotWidth(el)) * span), total));
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    // Lifting one finger of a pinch continues as a pan from where it is
+    if (pointersRef.current.size > 0) startGesture();
+  };
+
+  // A drag ends with a click on whatever is under the pointer; swallow it
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (gestureRef.current?.moved) e.stopPropagation();
+    gestureRef.current = null;
+  };
+
+  const drillInto = (candle: DaYunCandle) => {
+    const start = yearRows.findIndex((r) => r.age === candle.startAge);
+    const end = yearRows.findIndex((r) => r.age === candle.endAge);
+    if (start < 0 || end < 0) return;
+    setTimeframe('year');
+    setRange({ start, end });
+  };
+
+  // Clicks anywhere in a candle's column count, so thin candles are easy to hit
+  const handleChartClick = (state: any) => {
+    const payload = state?.activePayload?.[0]?.payload;
+    if (!navigable || !payload?.bodyRange) return;
+    if (payload.endAge !== undefined) drillInto(payload as DaYunCandle);
+    else setSelectedAge(payload.age);
+  };
+
+  // Once streaming is done every row is a full point, sorted by age
+  const points = (navigable ? yearRows : []) as KLinePoint[];
+  const selectedIndex = selectedAge === null ? -1 : points.findIndex((p) => p.age === selectedAge);
+
+  const selectIndex = (index: number) => {
+    if (index < 0 || index >= points.length) return;
+    setSelectedAge(points[index].age);
+    // Stepping past the edge of a zoomed view pans it along
+    const current = viewRef.current;
+    if (index < current.start) setRange(panRange(current, index - current.start, total));
+    else if (index > current.end) setRange(panRange(current, index - current.end, total));
+  };
+
+  const selectIndexRef = useRef(selectIndex);
+  selectIndexRef.current = selectIndex;
+  useEffect(() => {
+    if (selectedIndex < 0) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+      // Arrow keys still move the caret in form fields
+      if ((e.target as HTMLElement | null)?.closest?.('input, select, textarea, [contenteditable="true"]')) return;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        selectIndexRef.current(selectedIndex + (e.key === 'ArrowLeft' ? -1 : 1));
+      } else if (e.key === 'Escape') {
+        setSelectedAge(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedIndex]);
+
   if (!data || data.length === 0) {
     return <div className="h-[500px] flex items-center justify-center text-gray-400">无数据</div>;
   }
 
   return (
-    <div className="w-full h-[600px] bg-white p-2 md:p-6 rounded-xl border border-gray-200 shadow-sm relative">
-      <div className="mb-6 flex justify-between items-center px-2">
-        <h3 className="text-xl font-bold text-gray-800 font-serif-sc">人生流年大运K线图</h3>
-        <div className="flex gap-4 text-xs font-medium">
-           <span className="flex items-center text-green-700 bg-green-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-green-500 mr-2 rounded-full"></div> 吉运 (涨)</span>
-           <span className="flex items-center text-red-700 bg-red-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-red-500 mr-2 rounded-full"></div> 凶运 (跌)</span>
+    <div className="space-y-4">
+      <div
+        ref={containerRef}
+        className={`w-full ${showSubPanel ? 'h-[780px]' : 'h-[600px]'} bg-white p-2 md:p-6 rounded-xl border border-gray-200 shadow-sm relative flex flex-col`}
+      >
+        <div className={`${streaming ? 'mb-6' : 'mb-3'} flex justify-between items-center px-2`}>
+          <h3 className="text-xl font-bold text-gray-800 font-serif-sc">{CHART_TITLE}</h3>
+          <div className="flex items-center gap-4 text-xs font-medium">
+             {!streaming && (
+               <span className="flex items-center gap-2 text-gray-500">
+                 {exportError && <span className="text-red-600">{exportError}</span>}
+                 {(['png', 'svg'] as const).map((format) => (
+                   <button
+                     key={format}
+                     onClick={() => handleExport(format)}
+                     className="flex items-center gap-1 hover:text-indigo-600"
+                     title={format === 'png' ? '导出高清 PNG' : '导出 SVG 矢量图'}
+                   >
+                     <Download className="w-3.5 h-3.5" />
+                     {format.toUpperCase()}
+                   </button>
+                 ))}
+               </span>
+             )}
+             <span className="flex items-center text-green-700 bg-green-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-green-500 mr-2 rounded-full"></div> 吉运 (涨)</span>
+             <span className="flex items-center text-red-700 bg-red-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-red-500 mr-2 rounded-full"></div> 凶运 (跌)</span>
+          </div>
         </div>
-      </div>
-      
-      <ResponsiveContainer width="100%" height="90%">
-        <ComposedChart data={transformedData} margin={{ top: 20, right: 10, left: 0, bottom: 20 }}>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
-          
-          <XAxis 
-            dataKey="age" 
-            tick={{fontSize: 10, fill: '#6b7280'}}
-            interval={9} 
-            axisLine={{ stroke: '#e5e7eb' }}
-            tickLine={false}
-            label={{ value: '年龄', position: 'insideBottomRight', offset: -5, fontSize: 10, fill: '#9ca3af' }} 
-          />
+
+        {/* Indicator toggles double as the legend */}
+        {navigable && (
+          <div className="mb-3 px-2 flex flex-wrap items-center gap-2 text-xs font-medium">
+            <span className="flex rounded border border-gray-200 overflow-hidden">
+              {([['year', '年线'], ['daYun', '大运线']] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setTimeframe(key)}
+                  className={`px-2 py-1 ${timeframe === key ? 'bg-gray-800 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </span>
+            {!isDaYunView && zoomed && (
+              <button
+                onClick={() => setRange(null)}
+                className="flex items-center gap-1 px-2 py-1 text-indigo-600 hover:text-indigo-800"
+                title="显示全部 100 年"
+              >
+                <Maximize2 className="w-3.5 h-3.5" />
+                {yearRows[view.start]?.age}–{yearRows[view.end]?.age} 岁 · 全部
+              </button>
+            )}
+            {!isDaYunView && OVERLAYS.map((overlay) => {
+              const on = overlays.includes(overlay.key);
+              return (
+                <button
+                  key={overlay.key}
+                  onClick={() => toggleOverlay(overlay.key)}
+                  aria-pressed={on}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded border ${on ? 'border-gray-300 text-gray-700 bg-gray-50' : 'border-transparent text-gray-400 hover:text-gray-600'}`}
+                >
+                  <span className="w-3 h-0.5" style={{ backgroundColor: on ? overlay.color : '#d1d5db' }} />
+                  {overlay.label}
+                </button>
+              );
+            })}
+            {!isDaYunView && (
+            <span className="ml-auto flex rounded border border-gray-200 overflow-hidden">
+              {SUB_PANELS.map((panel) => (
+                <button
+                  key={panel.key}
+                  onClick={() => setSubPanel(panel.key)}
+                  className={`px-2 py-1 ${subPanel === panel.key ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {panel.label}
+                </button>
+              ))}
+            </span>
+            )}
+          </div>
+        )}
+
+        <div
+          ref={plotRef}
+          className="flex-1 min-h-0 select-none"
+          style={{ touchAction: yearViewActive ? 'pan-y' : undefined }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerEnd}
+          onPointerCancel={handlePointerEnd}
+          onPointerLeave={handlePointerEnd}
+          onClickCapture={handleClickCapture}
+        >
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={visibleData}
+            syncId="lifeKLine"
+            margin={{ top: 20, right: PLOT_RIGHT, left: 0, bottom: 20 }}
+            onClick={handleChartClick}
+            className={navigable ? 'cursor-pointer' : undefined}
+          >
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
           
-          <YAxis 
-            domain={[0, 100]} 
-            tick={{fontSize: 10, fill: '#6b7280'}}
-            axisLine={false}
-            tickLine={false}
-            label={{ value: '运势分', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#9ca3af' }} 
-          />
+            <XAxis 
+              dataKey={isDaYunView ? 'label' : 'age'}
+              tick={{fontSize: 10, fill: '#6b7280'}}
+              interval={tickInterval}
+              axisLine={{ stroke: '#e5e7eb' }}
+              tickLine={false}
+              label={{ value: isDaYunView ? '大运' : '年龄', position: 'insideBottomRight', offset: -5, fontSize: 10, fill: '#9ca3af' }} 
+            />
           
-          <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#9ca3af', strokeWidth: 1, strokeDasharray: '4 4' }} />
+            <YAxis 
+              width={PLOT_LEFT}
+              domain={[0, 100]} 
+              tick={{fontSize: 10, fill: '#6b7280'}}
+              axisLine={false}
+              tickLine={false}
+              label={{ value: '运势分', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#9ca3af' }} 
+            />
           
-          {/* Da Yun Reference Lines */}
-          {daYunChanges.map((point, index) => (
-             <ReferenceLine 
-               key={`dayun-${index}`} 
-               x={point.age} 
-               stroke="#cbd5e1" 
-               strokeDasharray="3 3" 
-               strokeWidth={1}
-             >
-               <Label 
-                 value={point.daYun} 
-                 position="top" 
-                 fill="#6366f1" 
-                 fontSize={10} 
-                 fontWeight="bold"
-                 className="hidden md:block"
-               />
-             </ReferenceLine>
-          ))}
-
-          <Bar 
-            dataKey="bodyRange" 
-            shape={<CandleShape />} 
-            isAnimationActive={true}
-            animationDuration={1500}
-          />
+            <Tooltip content={<CustomTooltip overlays={overlays} subPanel={subPanel} />} cursor={{ stroke: '#9ca3af', strokeWidth: 1, strokeDasharray: '4 4' }} />
           
-        </ComposedChart>
-      </ResponsiveContainer>
+            {/* Da Yun Reference Lines */}
+            {!isDaYunView && daYunChanges.map((point, index) => (
+               <ReferenceLine 
+                 key={`dayun-${index}`} 
+                 x={point.age} 
+                 stroke="#cbd5e1" 
+                 strokeDasharray="3 3" 
+                 strokeWidth={1}
+               >
+                 <Label 
+                   value={point.daYun} 
+                   position="top" 
+                   fill="#6366f1" 
+                   fontSize={10} 
+                   fontWeight="bold"
+                   className="hidden md:block"
+                 />
+               </ReferenceLine>
+            ))}
+
+            <Bar 
+              dataKey="bodyRange" 
+              shape={<CandleShape selectedAge={selectedAge} />} 
+              isAnimationActive={!streaming && !zoomed}
+              animationDuration={1500}
+            />
+
+            {!isDaYunView && !streaming && OVERLAY_LINES.filter((line) => overlays.includes(line.overlay)).map((line) => (
+              <Line
+                key={line.dataKey}
+                dataKey={line.dataKey}
+                type={line.step ? 'stepAfter' : 'monotone'}
+                stroke={overlayColor(line.overlay)}
+                strokeWidth={line.step ? 2 : 1.5}
+                strokeDasharray={line.dashed ? '4 3' : undefined}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+        </div>
+
+        {/* Range selector over the whole life, with a close-price preview */}
+        {yearViewActive && (
+          <div className="h-[40px] mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={yearRows} margin={{ top: 0, right: PLOT_RIGHT, left: PLOT_LEFT, bottom: 0 }}>
+                <Brush
+                  dataKey="age"
+                  y={2}
+                  height={34}
+                  travellerWidth={8}
+                  stroke="#6366f1"
+                  startIndex={view.start}
+                  endIndex={view.end}
+                  onChange={({ startIndex, endIndex }) =>
+                    setRange({ start: startIndex ?? 0, end: endIndex ?? total - 1 })
+                  }
+                >
+                  <ComposedChart>
+                    <Line dataKey="close" stroke="#a5b4fc" dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </Brush>
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {showSubPanel && (
+          <div className="h-[170px] border-t border-gray-100 pt-2">
+            <div className="px-2 flex items-center gap-3 text-[11px] text-gray-500">
+              {subPanel === 'macd' ? (
+                <>
+                  <span className="font-bold text-gray-600">MACD (12, 26, 9)</span>
+                  <span className="flex items-center gap-1"><span className="w-3 h-0.5" style={{ backgroundColor: INDICATOR_COLORS.macdDif }} />DIF</span>
+                  <span className="flex items-center gap-1"><span className="w-3 h-0.5" style={{ backgroundColor: INDICATOR_COLORS.macdDea }} />DEA</span>
+                  <span className="flex items-center gap-1"><span className="w-2 h-2 bg-green-500" /><span className="w-2 h-2 bg-red-500" />柱</span>
+                </>
+              ) : (
+                <>
+                  <span className="font-bold text-gray-600">RSI (14)</span>
+                  <span className="flex items-center gap-1"><span className="w-3 h-0.5" style={{ backgroundColor: INDICATOR_COLORS.rsi }} />RSI</span>
+                  <span>超买 {RSI_BANDS.overbought} / 超卖 {RSI_BANDS.oversold}</span>
+                </>
+              )}
+            </div>
+            <ResponsiveContainer width="100%" height="85%">
+              <ComposedChart data={visibleData} syncId="lifeKLine" margin={{ top: 8, right: PLOT_RIGHT, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                <XAxis dataKey="age" hide />
+                <YAxis
+                  width={PLOT_LEFT}
+                  domain={subPanel === 'rsi' ? [0, 100] : ['auto', 'auto']}
+                  ticks={subPanel === 'rsi' ? [RSI_BANDS.oversold, 50, RSI_BANDS.overbought] : undefined}
+                  tick={{fontSize: 10, fill: '#6b7280'}}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                {/* Values show in the main tooltip; this one only draws the synced cursor */}
+                <Tooltip content={() => null} cursor={{ stroke: '#9ca3af', strokeWidth: 1, strokeDasharray: '4 4' }} />
+                {subPanel === 'macd' ? (
+                  [
+                    <ReferenceLine key="zero" y={0} stroke="#e5e7eb" />,
+                    <Bar key="hist" dataKey="macdHist" isAnimationActive={false}>
+                      {visibleData.map((d) => (
+                        <Cell key={d.age} fill={(d.macdHist ?? 0) >= 0 ? '#22c55e' : '#ef4444'} />
+                      ))}
+                    </Bar>,
+                    <Line key="dif" dataKey="macdDif" stroke={INDICATOR_COLORS.macdDif} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />,
+                    <Line key="dea" dataKey="macdDea" stroke={INDICATOR_COLORS.macdDea} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />,
+                  ]
+                ) : (
+                  [
+                    <ReferenceLine key="ob" y={RSI_BANDS.overbought} stroke="#fca5a5" strokeDasharray="3 3" />,
+                    <ReferenceLine key="os" y={RSI_BANDS.oversold} stroke="#86efac" strokeDasharray="3 3" />,
+                    <Line key="rsi" dataKey="rsi" stroke={INDICATOR_COLORS.rsi} strokeWidth={1.5} dot={false} activeDot={false} isAnimationActive={false} />,
+                  ]
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {selectedIndex >= 0 && (
+        <YearDetailPanel
+          point={points[selectedIndex]}
+          previous={points.find((p) => p.age === points[selectedIndex].age - 1) ?? null}
+          onPrev={selectedIndex > 0 ? () => selectIndex(selectedIndex - 1) : null}
+          onNext={selectedIndex < points.length - 1 ? () => selectIndex(selectedIndex + 1) : null}
+          onClose={() => setSelectedAge(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,110 @@
+import React from 'react';
+import { AnalysisData, Gender, LifeDestinyResult, UserInput } from '../types';
+
+interface PrintReportProps {
+  result: LifeDestinyResult;
+  input: UserInput | null;
+  name: string;
+  modelId: string;
+  chartImageUrl: string | null; // 打印前由 App 截取的K线图（chartExport.ts）
+}
+
+const SECTIONS: { key: keyof AnalysisData; scoreKey: keyof AnalysisData; title: string }[] = [
+  { key: 'summary', scoreKey: 'summaryScore', title: '命理总评' },
+  { key: 'industry', scoreKey: 'industryScore', title: '事业行业' },
+  { key: 'wealth', scoreKey: 'wealthScore', title: '财富层级' },
+  { key: 'marriage', scoreKey: 'marriageScore', title: '婚姻情感' },
+  { key: 'health', scoreKey: 'healthScore', title: '身体健康' },
+  { key: 'family', scoreKey: 'familyScore', title: '六亲关系' },
+];
+
+const PILLAR_LABELS = ['年柱', '月柱', '日柱', '时柱'];
+
+// 仅在打印（或"另存为 PDF"）时显示的完整报告；屏幕上隐藏
+const PrintReport: React.FC<PrintReportProps> = ({ result, input, name, modelId, chartImageUrl }) => {
+  const { analysis, chartData } = result;
+
+  return (
+    <article className="hidden print:block w-full text-black text-sm leading-relaxed">
+      <header className="border-b-2 border-black pb-3 mb-4">
+        <h1 className="text-2xl font-bold font-serif-sc">人生K线命理报告 · {name}</h1>
+        <p className="text-xs text-gray-600 mt-1">
+          {input && `${input.gender === Gender.MALE ? '男 (乾造)' : '女 (坤造)'} · ${input.birthYear} 年生 · 起运 ${input.startAge} 岁 · 第一步大运 ${input.firstDaYun} · `}
+          模型 {modelId || '未知'} · 打印于 {new Date().toLocaleString('zh-CN')}
+        </p>
+      </header>
+
+      <section className="print-avoid-break mb-4">
+        <table className="w-full border border-black text-center">
+          <thead>
+            <tr>
+              {PILLAR_LABELS.map((label) => (
+                <th key={label} className="border border-black py-1 text-xs font-normal">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              {analysis.bazi.map((pillar, i) => (
+                <td key={i} className="border border-black py-2 text-xl font-bold font-serif-sc tracking-widest">{pillar}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      <section className="mb-4 space-y-3">
+        {SECTIONS.map(({ key, scoreKey, title }) => (
+          <div key={key} className="print-avoid-break">
+            <h2 className="font-bold font-serif-sc text-base">
+              {title} <span className="font-sans font-normal text-xs">评分 {analysis[scoreKey]} / 10</span>
+            </h2>
+            <p className="whitespace-pre-wrap">{analysis[key]}</p>
+          </div>
+        ))}
+      </section>
+
+      {chartImageUrl && (
+        <section className="print-avoid-break mb-4">
+          <img src={chartImageUrl} alt="人生流年大运K线图" className="w-full" />
+        </section>
+      )}
+
+      <section className="print-break-before">
+        <h2 className="font-bold font-serif-sc text-base mb-2">流年明细（{chartData.length} 年）</h2>
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr className="border-b border-black">
+              <th className="text-left py-1 pr-2 font-normal">年龄</th>
+              <th className="text-left py-1 pr-2 font-normal">年份</th>
+              <th className="text-left py-1 pr-2 font-normal">流年</th>
+              <th className="text-left py-1 pr-2 font-normal">大运</th>
+              <th className="text-right py-1 pr-2 font-normal">开</th>
+              <th className="text-right py-1 pr-2 font-normal">收</th>
+              <th className="text-right py-1 pr-2 font-normal">高</th>
+              <th className="text-right py-1 pr-2 font-normal">低</th>
+              <th className="text-left py-1 font-normal">批断</th>
+            </tr>
+          </thead>
+          <tbody>
+            {chartData.map((p) => (
+              <tr key={p.age} className="border-b border-gray-300 align-top print-avoid-break">
+                <td className="py-1 pr-2">{p.age}</td>
+                <td className="py-1 pr-2">{p.year}</td>
+                <td className="py-1 pr-2 font-serif-sc">{p.ganZhi}</td>
+                <td className="py-1 pr-2 font-serif-sc">{p.daYun}</td>
+                <td className="py-1 pr-2 text-right font-mono">{p.open}</td>
+                <td className={`py-1 pr-2 text-right font-mono ${p.close >= p.open ? 'text-green-700' : 'text-red-700'}`}>{p.close}</td>
+                <td className="py-1 pr-2 text-right font-mono">{p.high}</td>
+                <td className="py-1 pr-2 text-right font-mono">{p.low}</td>
+                <td className="py-1">{p.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </article>
+  );
+};
+
+export default PrintReport;
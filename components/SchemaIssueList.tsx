@@ -0,0 +1,25 @@
+import React from 'react';
+import { SchemaIssue } from '../types';
+
+interface SchemaIssueListProps {
+  issues: SchemaIssue[];
+  limit?: number;
+}
+
+// 按路径列出校验问题，error 标红、warning 标灰
+const SchemaIssueList: React.FC<SchemaIssueListProps> = ({ issues, limit = 50 }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-0.5 text-xs max-h-[200px] overflow-y-auto custom-scrollbar">
+      {issues.slice(0, limit).map((issue, i) => (
+        <li key={`${issue.path}-${i}`} className={issue.severity === 'error' ? 'text-red-600' : 'text-gray-500'}>
+          <span className="font-mono">{issue.path}</span>: {issue.message}
+        </li>
+      ))}
+      {issues.length > limit && <li className="text-gray-400">…另有 {issues.length - limit} 处</li>}
+    </ul>
+  );
+};
+
+export default SchemaIssueList;
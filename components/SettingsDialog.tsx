@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, X, Eye, EyeOff, PlugZap, Loader2, CheckCircle2, AlertCircle, Database } from 'lucide-react';
+import { LLM_PROVIDERS, ProviderId, createModelConfig, testModelConnection } from '../services/llmProviders';
+import {
+  ModelSettings,
+  MAX_TOKENS_RANGE,
+  TEMPERATURE_RANGE,
+  clearModelSettings,
+  loadModelSettings,
+  saveModelSettings,
+} from '../services/modelSettings';
+import { DEFAULT_TIMEOUT_MINUTES, TIMEOUT_MINUTES_RANGE } from '../services/cancellation';
+import { RESULT_CACHE_LIMITS, ResultCacheStats, clearResultCache, getResultCacheStats } from '../services/resultCache';
+import { envModelDefaults, resolveDirectModelConfig } from '../services/analysisClient';
+
+// 由 App 按需挂载，每次打开都重新读取已保存的配置
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+// 表单内数字字段以字符串保存，留空表示沿用默认值
+interface SettingsForm {
+  provider: ProviderId;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  temperature: string;
+  maxTokens: string;
+  timeoutMinutes: string;
+}
+
+type TestState =
+  | { status: 'idle' }
+  | { status: 'running' }
+  | { status: 'ok'; message: string }
+  | { status: 'error'; message: string };
+
+const formFromSettings = (settings: ModelSettings | null): SettingsForm => {
+  const env = envModelDefaults();
+  return {
+    provider: settings?.provider || createModelConfig(env.provider, {}).provider,
+    apiKey: settings?.apiKey || '',
+    baseUrl: settings?.baseUrl || '',
+    model: settings?.model || '',
+    temperature: settings?.temperature === undefined ? '' : String(settings.temperature),
+    maxTokens: settings?.maxTokens === undefined ? '' : String(settings.maxTokens),
+    timeoutMinutes: settings?.timeoutMinutes === undefined ? '' : String(settings.timeoutMinutes),
+  };
+};
+
+const parseOptionalNumber = (value: string, range: { min: number; max: number }, label: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < range.min || n > range.max) {
+    throw new Error(`${label}需在 ${range.min}-${range.max} 之间`);
+  }
+  return n;
+};
+
+const settingsFromForm = (form: SettingsForm): ModelSettings => ({
+  provider: form.provider,
+  apiKey: form.apiKey.trim(),
+  baseUrl: form.baseUrl.trim(),
+  model: form.model.trim(),
+  temperature: parseOptionalNumber(form.temperature, TEMPERATURE_RANGE, '温度'),
+  maxTokens: parseOptionalNumber(form.maxTokens, MAX_TOKENS_RANGE, '最大输出 Token '),
+  timeoutMinutes: parseOptionalNumber(form.timeoutMinutes, TIMEOUT_MINUTES_RANGE, '总超时'),
+});
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-sm';
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
+  const [form, setForm] = useState<SettingsForm>(() => formFromSettings(loadModelSettings()));
+  const [showKey, setShowKey] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const [cacheStats, setCacheStats] = useState<ResultCacheStats | null>(null);
+
+  useEffect(() => {
+    getResultCacheStats().then(setCacheStats);
+  }, []);
+
+  const handleClearCache = async () => {
+    await clearResultCache();
+    setCacheStats(await getResultCacheStats());
+  };
+
+  const provider = LLM_PROVIDERS[form.provider];
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setFormError(null);
+    setTest({ status: 'idle' });
+  };
+
+  const handleTest = async () => {
+    let config;
+    try {
+      config = resolveDirectModelConfig(settingsFromForm(form));
+    } catch (e: any) {
+      setFormError(e.message);
+      return;
+    }
+    if (!config) {
+      setTest({ status: 'error', message: `请先填写 ${provider.label} 的 API Key（未填写时由服务端代为调用，无法在此测试）` });
+      return;
+    }
+    setTest({ status: 'running' });
+    try {
+      const { latencyMs, reply } = await testModelConnection(config);
+      setTest({ status: 'ok', message: `连接成功（${config.model}，${latencyMs} ms）：${reply}` });
+    } catch (e: any) {
+      setTest({ status: 'error', message: e?.message || '连接失败' });
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      saveModelSettings(settingsFromForm(form));
+      onClose();
+    } catch (e: any) {
+      setFormError(e.message);
+    }
+  };
+
+  const handleClear = () => {
+    clearModelSettings();
+    setForm(formFromSettings(null));
+    setTest({ status: 'idle' });
+    setFormError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-2xl shadow-2xl border border-gray-100 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-dialog-title"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="settings-dialog-title" className="text-xl font-bold font-serif-sc text-gray-800 flex items-center gap-2">
+            <Settings className="w-5 h-5 text-indigo-600" />
+            模型设置
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="关闭">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 leading-relaxed bg-gray-50 rounded-lg px-3 py-2">
+          配置只保存在本机浏览器（localStorage）。填写 API Key 后，浏览器将直接请求模型服务商，不经过本站服务器；
+          留空则由服务端使用其配置的密钥与模型。未填写的字段沿用默认值。
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-gray-600 mb-1">服务商</label>
+            <select name="provider" value={form.provider} onChange={handleChange} className={inputClass}>
+              {Object.values(LLM_PROVIDERS).map((p) => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-gray-600 mb-1">
+              API Key {!provider.requiresApiKey && <span className="font-normal text-gray-400">（可选）</span>}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                name="apiKey"
+                value={form.apiKey}
+                onChange={handleChange}
+                autoComplete="off"
+                placeholder="留空使用服务端配置"
+                className={`${inputClass} font-mono`}
+              />
+              <button
+                type="button"
+                onClick={() => setShowKey((v) => !v)}
+                className="text-gray-400 hover:text-gray-700"
+                aria-label={showKey ? '隐藏密钥' : '显示密钥'}
+              >
+                {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-gray-600 mb-1">Base URL</label>
+            <input
+              type="url"
+              name="baseUrl"
+              value={form.baseUrl}
+              onChange={handleChange}
+              placeholder={provider.defaultBaseUrl}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-gray-600 mb-1">模型名称</label>
+            <input
+              type="text"
+              name="model"
+              value={form.model}
+              onChange={handleChange}
+              placeholder={provider.defaultModel}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">温度 (Temperature)</label>
+            <input
+              type="number"
+              name="temperature"
+              step="0.1"
+              min={TEMPERATURE_RANGE.min}
+              max={TEMPERATURE_RANGE.max}
+              value={form.temperature}
+              onChange={handleChange}
+              placeholder="0"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">最大输出 Token</label>
+            <input
+              type="number"
+              name="maxTokens"
+              step="256"
+              min={MAX_TOKENS_RANGE.min}
+              max={MAX_TOKENS_RANGE.max}
+              value={form.maxTokens}
+              onChange={handleChange}
+              placeholder="4000"
+              className={inputClass}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-gray-600 mb-1">总超时（分钟）</label>
+            <input
+              type="number"
+              name="timeoutMinutes"
+              step="1"
+              min={TIMEOUT_MINUTES_RANGE.min}
+              max={TIMEOUT_MINUTES_RANGE.max}
+              value={form.timeoutMinutes}
+              onChange={handleChange}
+              placeholder={String(DEFAULT_TIMEOUT_MINUTES)}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-400 mt-1">超过该时长仍未完成的推演会自动停止。</p>
+          </div>
+        </div>
+
+        {formError && (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-4 h-4" />
+            {formError}
+          </p>
+        )}
+        {test.status === 'ok' && (
+          <p className="text-xs text-green-700 bg-green-50 rounded-lg px-3 py-2 flex items-start gap-1 break-all">
+            <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+            {test.message}
+          </p>
+        )}
+        {test.status === 'error' && (
+          <p className="text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2 flex items-start gap-1 break-all max-h-32 overflow-y-auto custom-scrollbar">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {test.message}
+          </p>
+        )}
+
+        {cacheStats && (
+          <div className="flex items-center justify-between text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-2">
+            <span className="flex items-center gap-1">
+              <Database className="w-4 h-4" />
+              结果缓存：{cacheStats.count}/{RESULT_CACHE_LIMITS.maxEntries} 条，{(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB
+            </span>
+            <button
+              type="button"
+              onClick={handleClearCache}
+              disabled={cacheStats.count === 0}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              清空缓存
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={test.status === 'running'}
+              className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+            >
+              {test.status === 'running' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+              测试连接
+            </button>
+            <button type="button" onClick={handleClear} className="text-sm text-gray-400 hover:text-red-600">
+              清除
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-4 py-2 text-sm font-bold text-white bg-gray-900 hover:bg-black rounded-lg"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, X, Copy, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { LifeDestinyResult, UserInput } from '../types';
+import { PERSONAL_FIELDS, buildShareUrl } from '../services/shareLink';
+
+interface ShareDialogProps {
+  input: UserInput;
+  result: LifeDestinyResult;
+  modelId: string;
+  onClose: () => void;
+}
+
+// 超过这个长度时部分聊天软件会截断链接
+const LONG_LINK_CHARS = 8000;
+
+// 生成分享链接：默认只带排盘与结果，不含个人信息
+const ShareDialog: React.FC<ShareDialogProps> = ({ input, result, modelId, onClose }) => {
+  const [includeResult, setIncludeResult] = useState(true);
+  const [includePersonal, setIncludePersonal] = useState(false);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const hasPersonal = PERSONAL_FIELDS.some((key) => String(input[key] ?? '').trim());
+
+  useEffect(() => {
+    let stale = false;
+    setUrl('');
+    setError(null);
+    setCopied(false);
+    buildShareUrl({ input, result, modelId }, { includeResult, includePersonal })
+      .then((next) => !stale && setUrl(next))
+      .catch((err: any) => !stale && setError(`生成链接失败：${err.message}`));
+    return () => {
+      stale = true;
+    };
+  }, [input, result, modelId, includeResult, includePersonal]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError('无法访问剪贴板，请手动选中链接复制。');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-2xl shadow-2xl border border-gray-100 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-dialog-title"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="share-dialog-title" className="text-xl font-bold font-serif-sc text-gray-800 flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-indigo-600" />
+            分享命盘
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="关闭">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 leading-relaxed bg-gray-50 rounded-lg px-3 py-2">
+          命盘数据直接编码在链接中（# 之后的部分不会发送到任何服务器）。对方打开链接即可看到同样的K线与分析；
+          若不附带结果，对方可以用自己的模型配置重新推演。
+        </p>
+
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={includeResult}
+              onChange={(e) => setIncludeResult(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              附带推演结果
+              <span className="block text-xs text-gray-400">不勾选时只分享排盘信息，链接更短</span>
+            </span>
+          </label>
+          <label className={`flex items-start gap-2 ${hasPersonal ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={includePersonal}
+              disabled={!hasPersonal}
+              onChange={(e) => setIncludePersonal(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              包含个人信息
+              <span className="block text-xs text-gray-400">姓名、公历出生日期与时间、出生地；不勾选时结果中的姓名显示为「命主」</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={url}
+              placeholder="正在生成链接…"
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono text-gray-600 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              disabled={!url}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {!url ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : copied ? (
+                <CheckCircle2 className="w-4 h-4" />
+              ) : (
+                <Copy className="w-4 h-4" />
+              )}
+              {copied ? '已复制' : '复制'}
+            </button>
+          </div>
+          {url.length > LONG_LINK_CHARS && (
+            <p className="text-xs text-amber-700">
+              链接较长（{url.length.toLocaleString()} 字符），部分聊天软件可能截断；可取消「附带推演结果」缩短链接。
+            </p>
+          )}
+          {error && (
+            <p className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { KLinePoint } from '../types';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+interface YearDetailPanelProps {
+  point: KLinePoint;
+  previous: KLinePoint | null; // 上一岁的流年；数据中没有时为 null
+  onPrev: (() => void) | null;
+  onNext: (() => void) | null;
+  onClose: () => void;
+}
+
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100) / 100}`;
+
+// 与上一年相比的变化：涨为绿、跌为红（与K线颜色一致）
+const Change = ({ label, value, percentBase }: { label: string; value: number; percentBase?: number }) => (
+  <div className="flex items-baseline justify-between gap-2">
+    <span className="text-gray-500">{label}</span>
+    <span className={`font-mono font-bold ${value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+      {formatChange(value)}
+      {percentBase ? <span className="font-normal text-xs ml-1">({formatChange((value / percentBase) * 100)}%)</span> : null}
+    </span>
+  </div>
+);
+
+// 点击K线后固定显示的流年详情；键盘 ← → 切换年份由 LifeKLineChart 处理
+const YearDetailPanel: React.FC<YearDetailPanelProps> = ({ point, previous, onPrev, onNext, onClose }) => {
+  const isUp = point.close >= point.open;
+
+  return (
+    <section
+      className="bg-white rounded-xl border-2 border-indigo-200 shadow-sm p-4 md:p-6 animate-fade-in"
+      aria-live="polite"
+      aria-label={`${point.year} 年流年详情`}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <p className="text-xl font-bold text-gray-800 font-serif-sc">
+            {point.year} {point.ganZhi}年 <span className="text-base text-gray-500 font-sans">({point.age}岁)</span>
+          </p>
+          <p className="text-sm text-indigo-600 font-medium mt-1">
+            流年：{point.ganZhi} · 大运：{point.daYun || '未知'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`text-sm font-bold px-2 py-1 rounded ${isUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+            {isUp ? '吉 ▲' : '凶 ▼'}
+          </span>
+          <button
+            onClick={onPrev ?? undefined}
+            disabled={!onPrev}
+            className="p-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-30"
+            title="上一年 (←)"
+            aria-label="上一年"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onNext ?? undefined}
+            disabled={!onNext}
+            className="p-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-30"
+            title="下一年 (→)"
+            aria-label="下一年"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-700" title="关闭 (Esc)" aria-label="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-[220px_1fr] gap-4 md:gap-6">
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 bg-gray-50 p-2 rounded">
+            {([['开盘', point.open], ['收盘', point.close], ['最高', point.high], ['最低', point.low]] as const).map(([label, value]) => (
+              <div key={label} className="text-center">
+                <span className="block">{label}</span>
+                <span className="font-mono text-gray-700 font-bold text-sm">{value}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-gray-500">评分</span>
+            <span className="font-mono font-bold text-gray-700">{point.score}</span>
+          </div>
+          {previous ? (
+            <div className="space-y-1 border-t border-gray-100 pt-2">
+              <p className="text-xs text-gray-400">较上一年（{previous.year} {previous.ganZhi}）</p>
+              <Change label="收盘" value={point.close - previous.close} percentBase={previous.close} />
+              <Change label="评分" value={point.score - previous.score} />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 border-t border-gray-100 pt-2">无上一年数据</p>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-700 leading-relaxed text-justify whitespace-pre-wrap">{point.reason}</p>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-4 hidden md:block">键盘 ← → 切换年份，Esc 关闭</p>
+    </section>
+  );
+};
+
+export default YearDetailPanel;
@@ -0,0 +1,201 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import { extname, join, normalize, resolve } from "node:path";
+import { AnalysisStreamEvent, UserInput } from "../types";
+import { runLifeAnalysis } from "../services/geminiService";
+import { classifyError } from "../services/analysisErrors";
+import { TIMEOUT_MINUTES_RANGE, cancelledError, createAbortScope } from "../services/cancellation";
+import { ModelConfig, ProviderId, createModelConfig, getProvider, parseProviderId } from "../services/llmProviders";
+
+/**
+ * 轻量 Node 服务：
+ * - POST /api/analyze：密钥只在服务端读取，生成过程以 NDJSON 流式返回（point… → result | error）；
+ *   客户端断开（取消或前端超时）即中止全部模型请求
+ * - GET /api/model：当前使用的服务商与模型（不含密钥），供前端生成缓存键
+ * - 其余 GET 请求提供 dist/ 下的前端静态文件（单页应用，未知路径回退 index.html）
+ *
+ * 环境变量：LLM_PROVIDER（openai / gemini / anthropic / openai-compatible）、LLM_API_KEY、LLM_BASE_URL、LLM_MODEL、PORT、
+ * ANALYZE_TIMEOUT_MINUTES（服务端单次推演上限，默认取前端可设置的最大值）；
+ * 兼容旧变量 OPENAI_API_KEY / API_KEY / OPENAI_BASE / OPENAI_MODEL 以及 GEMINI_API_KEY、ANTHROPIC_API_KEY
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATIC_DIR = resolve(process.env.STATIC_DIR || "dist");
+const MAX_BODY_BYTES = 64 * 1024;
+const ANALYZE_TIMEOUT_MS = (Number(process.env.ANALYZE_TIMEOUT_MINUTES) || TIMEOUT_MINUTES_RANGE.max) * 60000;
+
+const PROVIDER_KEY_VARS: Record<ProviderId, string[]> = {
+  openai: ["OPENAI_API_KEY", "API_KEY"],
+  gemini: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  "openai-compatible": ["OPENAI_API_KEY", "API_KEY"],
+};
+
+function modelConfigFromEnv(): ModelConfig {
+  const provider = parseProviderId(process.env.LLM_PROVIDER);
+  const providerKeys = provider ? PROVIDER_KEY_VARS[provider].map((name) => process.env[name]) : [];
+  return createModelConfig(process.env.LLM_PROVIDER, {
+    apiKey: process.env.LLM_API_KEY || providerKeys.find(Boolean) || "",
+    baseUrl: process.env.LLM_BASE_URL || process.env.OPENAI_BASE,
+    model: process.env.LLM_MODEL || process.env.OPENAI_MODEL,
+  });
+}
+
+// Fails fast on an unknown LLM_PROVIDER
+const modelConfig = modelConfigFromEnv();
+const provider = getProvider(modelConfig.provider);
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+function readJsonBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("请求体过大"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolveBody(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+      } catch (_e) {
+        reject(new Error("请求体不是合法的 JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function isUserInput(body: any): body is UserInput {
+  const pillars = ["yearPillar", "monthPillar", "dayPillar", "hourPillar", "firstDaYun", "startAge", "birthYear"];
+  return !!body && typeof body === "object" && typeof body.gender === "string" &&
+    pillars.every((key) => typeof body[key] === "string");
+}
+
+async function handleAnalyze(req: IncomingMessage, res: ServerResponse) {
+  let input: UserInput;
+  try {
+    const body = await readJsonBody(req);
+    if (!isUserInput(body)) throw new Error("缺少排盘字段（四柱、起运年龄、第一步大运等）");
+    input = body;
+  } catch (e: any) {
+    res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(e.message);
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "application/x-ndjson; charset=utf-8",
+    "Cache-Control": "no-cache",
+    "X-Accel-Buffering": "no",
+  });
+  const send = (event: AnalysisStreamEvent) => {
+    if (!res.writableEnded) res.write(JSON.stringify(event) + "\n");
+  };
+
+  // "close" also fires after a normal end; only an early close means the client went away
+  const disconnected = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) disconnected.abort(cancelledError());
+  });
+  const scope = createAbortScope(disconnected.signal, ANALYZE_TIMEOUT_MS);
+
+  try {
+    const result = await runLifeAnalysis(input, modelConfig, {
+      onPoint: (point) => send({ type: "point", point }),
+      onAttempt: (attempt) => send({ type: "attempt", attempt }),
+      signal: scope.signal,
+    });
+    send({ type: "result", result });
+  } catch (e: any) {
+    const error = classifyError(e, { provider: modelConfig.provider, model: modelConfig.model, baseUrl: modelConfig.baseUrl });
+    send({ type: "error", error: error.toInfo() });
+  } finally {
+    scope.dispose();
+    res.end();
+  }
+}
+
+async function serveStatic(req: IncomingMessage, res: ServerResponse) {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname);
+  } catch (_e) {
+    // Malformed escapes such as /%ZZ
+    res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("无效的请求路径");
+    return;
+  }
+  // Keep lookups inside STATIC_DIR
+  const candidate = join(STATIC_DIR, normalize(pathname).replace(/^(\.\.[/\\])+/, ""));
+  let file = candidate.startsWith(STATIC_DIR) ? candidate : join(STATIC_DIR, "index.html");
+  try {
+    if (!(await stat(file)).isFile()) file = join(STATIC_DIR, "index.html");
+  } catch (_e) {
+    file = join(STATIC_DIR, "index.html");
+  }
+
+  try {
+    const content = await readFile(file);
+    res.writeHead(200, { "Content-Type": MIME_TYPES[extname(file)] || "application/octet-stream" });
+    res.end(content);
+  } catch (_e) {
+    res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("未找到前端构建产物，请先运行 npm run build");
+  }
+}
+
+// Last resort for a handler that throws: answer 500 (or cut a started stream) instead of crashing the process
+function failRequest(res: ServerResponse, err: unknown) {
+  console.error("[server] 请求处理失败：", err);
+  if (!res.headersSent) {
+    res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("服务器内部错误");
+  } else {
+    res.end();
+  }
+}
+
+const server = createServer((req, res) => {
+  const pathname = (req.url || "/").split("?")[0];
+  if (pathname === "/api/analyze") {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" });
+      res.end();
+      return;
+    }
+    handleAnalyze(req, res).catch((err) => failRequest(res, err));
+    return;
+  }
+  if (pathname === "/api/model") {
+    res.writeHead(200, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-cache" });
+    res.end(JSON.stringify({ provider: modelConfig.provider, label: provider.label, model: modelConfig.model }));
+    return;
+  }
+  if (req.method === "GET" || req.method === "HEAD") {
+    serveStatic(req, res).catch((err) => failRequest(res, err));
+    return;
+  }
+  res.writeHead(405);
+  res.end();
+});
+
+server.listen(PORT, () => {
+  console.log(`[server] 人生K线服务已启动：http://localhost:${PORT}（${provider.label} · ${modelConfig.model}）`);
+  if (provider.requiresApiKey && !modelConfig.apiKey) {
+    console.warn("[server] 未设置 LLM_API_KEY，/api/analyze 将返回错误。");
+  }
+});
@@ -0,0 +1,143 @@
+import { AnalysisStreamEvent, LifeDestinyResult, UserInput } from "../types";
+import { GenerationOptions, runLifeAnalysis } from "./geminiService";
+import { ModelConfig, createModelConfig, getProvider, parseProviderId } from "./llmProviders";
+import { ModelSettings, loadModelSettings } from "./modelSettings";
+import { AnalysisError, errorKindFromStatus } from "./analysisErrors";
+import { DEFAULT_TIMEOUT_MINUTES, createAbortScope, throwIfAborted } from "./cancellation";
+
+/**
+ * 前端入口，调用时按以下顺序决定模型配置：
+ * 1. 设置面板中保存的配置（localStorage）：填写了 API Key，或选了无需密钥的本地服务，则在浏览器中直连；
+ *    未填写的字段沿用环境变量，再沿用服务商默认值
+ * 2. 本地开发 (vite dev) 且显式配置了 VITE_LLM_API_KEY：浏览器直连
+ * 3. 否则请求本站 /api/analyze（密钥只保存在服务端，见 server/index.ts）
+ * 两种方式都受整体超时（设置面板「总超时」）约束，并可通过 options.signal 取消
+ */
+
+// 相对路径，与 vite.config 的 base './' 一致，部署在子路径下也能命中
+export const ANALYZE_ENDPOINT = "api/analyze";
+export const MODEL_ENDPOINT = "api/model";
+
+/** Build-time defaults; the key is only ever defined by the dev server. */
+export function envModelDefaults() {
+  return {
+    provider: (import.meta.env.VITE_LLM_PROVIDER as string) || "",
+    apiKey: import.meta.env.DEV ? (import.meta.env.VITE_LLM_API_KEY as string) || "" : "",
+    baseUrl: (import.meta.env.VITE_LLM_BASE_URL as string) || "",
+    model: (import.meta.env.VITE_LLM_MODEL as string) || "",
+  };
+}
+
+/** Merge saved settings over env defaults; null means "use the server". */
+export function resolveDirectModelConfig(settings: ModelSettings | null = loadModelSettings()): ModelConfig | null {
+  const env = envModelDefaults();
+  // Base URL / model defaults only carry over when the provider matches the env one
+  const sameProvider = !settings || parseProviderId(env.provider) === settings.provider;
+  const config = createModelConfig(settings?.provider || env.provider, {
+    apiKey: settings?.apiKey || (sameProvider ? env.apiKey : ""),
+    baseUrl: settings?.baseUrl || (sameProvider ? env.baseUrl : ""),
+    model: settings?.model || (sameProvider ? env.model : ""),
+  });
+  config.temperature = settings?.temperature;
+  config.maxTokens = settings?.maxTokens;
+
+  // A keyless provider (e.g. local Ollama) counts as explicitly configured once it is named
+  const keyless = !getProvider(config.provider).requiresApiKey && !!(settings || env.provider);
+  return config.apiKey || keyless ? config : null;
+}
+
+let serverModelId: Promise<string> | null = null;
+
+/**
+ * Identifies the model that would answer right now ("provider/model"), for
+ * cache keys. Server mode asks the server once per page load.
+ */
+export async function activeModelId(): Promise<string> {
+  const direct = resolveDirectModelConfig();
+  if (direct) return `${direct.provider}/${direct.model}`;
+  if (!serverModelId) {
+    serverModelId = fetch(MODEL_ENDPOINT)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`${res.status}`))))
+      .then((info) => `${info.provider}/${info.model}`)
+      .catch(() => {
+        serverModelId = null;
+        return "server";
+      });
+  }
+  return serverModelId;
+}
+
+async function analyzeViaServer(input: UserInput, options: GenerationOptions): Promise<LifeDestinyResult> {
+  let res: Response;
+  try {
+    res = await fetch(ANALYZE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+      signal: options.signal,
+    });
+  } catch (e) {
+    throwIfAborted(options.signal);
+    throw e;
+  }
+  if (!res.ok || !res.body) {
+    const errText = await res.text().catch(() => '');
+    throw new AnalysisError(errorKindFromStatus(res.status), `分析服务请求失败: ${res.status}${errText ? ` - ${errText}` : ''}`, {
+      detail: errText,
+      request: { task: ANALYZE_ENDPOINT, status: res.status },
+    });
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  let result: LifeDestinyResult | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as AnalysisStreamEvent;
+    if (event.type === 'point') options.onPoint?.(event.point);
+    else if (event.type === 'attempt') options.onAttempt?.(event.attempt);
+    else if (event.type === 'result') result = event.result;
+    else if (event.type === 'error') throw AnalysisError.fromInfo(event.error);
+  };
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (e) {
+      // Aborting the fetch errors the body stream; the server stops generating when the connection drops
+      throwIfAborted(options.signal);
+      throw e;
+    }
+    const { done, value } = chunk;
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(pending + decoder.decode());
+
+  if (!result) {
+    throw new AnalysisError('network', "分析服务连接中断，未返回完整结果。", { request: { task: ANALYZE_ENDPOINT } });
+  }
+  return result;
+}
+
+export const generateLifeAnalysis = async (
+  input: UserInput,
+  options: GenerationOptions = {}
+): Promise<LifeDestinyResult> => {
+  // Read at call time so changes in the settings dialog apply without a reload
+  const settings = loadModelSettings();
+  const direct = resolveDirectModelConfig(settings);
+  const scope = createAbortScope(options.signal, (settings?.timeoutMinutes ?? DEFAULT_TIMEOUT_MINUTES) * 60000);
+  const scoped = { ...options, signal: scope.signal };
+  try {
+    return await (direct ? runLifeAnalysis(input, direct, scoped) : analyzeViaServer(input, scoped));
+  } finally {
+    scope.dispose();
+  }
+};
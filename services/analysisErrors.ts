@@ -0,0 +1,124 @@
+import { AnalysisErrorDiagnostics, AnalysisErrorInfo, AnalysisErrorKind, AnalysisRequestMeta } from "../types";
+import { ModelRequestError } from "./retryPolicy";
+
+/**
+ * 生成失败的分类：
+ * - 每类对应面向用户的标题、说明与建议操作（ERROR_GUIDE）
+ * - 技术细节（原始输出、解析结果、校验问题、请求信息）放在 diagnostics 中，供诊断面板展示与复制
+ */
+
+export const ERROR_GUIDE: Record<AnalysisErrorKind, { title: string; message: string; action: string }> = {
+  missingKey: {
+    title: '未配置 API Key',
+    message: '当前没有可用的模型密钥，无法发起推演。',
+    action: '在右上角「设置」中填写 API Key，或在服务端设置 LLM_API_KEY 后重启服务。',
+  },
+  invalidInput: {
+    title: '排盘信息无效',
+    message: '四柱或大运信息不合规，无法排出大运与流年。',
+    action: '返回表单检查年柱等干支是否填写正确后重试。',
+  },
+  auth: {
+    title: '鉴权失败',
+    message: '模型服务商拒绝了请求：密钥无效、已过期，或无权使用该模型。',
+    action: '检查 API Key 与模型名称是否匹配，可在「设置」中点击「测试连接」确认。',
+  },
+  rateLimit: {
+    title: '请求过于频繁',
+    message: '模型服务商限流或账户额度不足，自动重试后仍未成功。',
+    action: '稍等几分钟再试，或检查账户额度；也可在「设置」中换用其他模型。',
+  },
+  network: {
+    title: '网络或服务异常',
+    message: '无法连接模型服务，或服务暂时不可用、响应超时。',
+    action: '检查网络连接与 Base URL 设置后重试。',
+  },
+  truncated: {
+    title: '输出被截断',
+    message: '模型输出达到最大 token 上限，结果不完整。',
+    action: '在「设置」中调大「最大输出 Token」后重试。',
+  },
+  unparseable: {
+    title: '无法解析模型输出',
+    message: '模型返回的内容不是有效的 JSON，自动修正后仍无法解析。',
+    action: '重试一次；若反复出现，请换用支持 JSON 输出的模型。',
+  },
+  schema: {
+    title: '数据校验未通过',
+    message: '模型返回的数据缺少字段或数值不合规，自动修正后仍未通过校验。',
+    action: '重试一次；具体问题见下方诊断信息。',
+  },
+  timeout: {
+    title: '推演超时',
+    message: '推演超过设定的总时长仍未完成，已自动停止。',
+    action: '在「设置」中调大「总超时」，或换用响应更快的模型后重试。',
+  },
+  cancelled: {
+    title: '已取消',
+    message: '推演已手动取消。',
+    action: '修改排盘信息后可重新生成。',
+  },
+  unknown: {
+    title: '发生未知错误',
+    message: '推演过程中出现了未分类的错误。',
+    action: '重试；若问题持续，请复制诊断信息反馈给我们。',
+  },
+};
+
+// 诊断信息中保留的原始输出上限，避免错误事件过大
+const RAW_OUTPUT_LIMIT = 20000;
+
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+  diagnostics: AnalysisErrorDiagnostics;
+
+  constructor(kind: AnalysisErrorKind, message: string, diagnostics: AnalysisErrorDiagnostics = {}) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.diagnostics = {
+      ...diagnostics,
+      rawOutput: diagnostics.rawOutput?.slice(0, RAW_OUTPUT_LIMIT),
+    };
+  }
+
+  toInfo(): AnalysisErrorInfo {
+    return { kind: this.kind, message: this.message, diagnostics: this.diagnostics };
+  }
+
+  static fromInfo(info: AnalysisErrorInfo): AnalysisError {
+    return new AnalysisError(info.kind, info.message, info.diagnostics || {});
+  }
+}
+
+export function errorKindFromStatus(status?: number): AnalysisErrorKind {
+  if (status === undefined || status === 408 || status >= 500) return 'network';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rateLimit';
+  return 'unknown';
+}
+
+/**
+ * Turn any thrown value into an AnalysisError, filling in request metadata
+ * the thrower did not know about.
+ */
+export function classifyError(err: unknown, request: AnalysisRequestMeta = {}): AnalysisError {
+  if (err instanceof AnalysisError) {
+    err.diagnostics.request = { ...request, ...err.diagnostics.request };
+    return err;
+  }
+  if (err instanceof ModelRequestError) {
+    return new AnalysisError(errorKindFromStatus(err.status), err.message, {
+      detail: err.message,
+      request: { ...request, status: err.status },
+    });
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  // Aborted without one of our reasons (e.g. a bare controller.abort())
+  if (err instanceof Error && err.name === 'AbortError') {
+    return new AnalysisError('cancelled', message, { detail: message, request });
+  }
+  // fetch() rejects with a TypeError when the network is down or CORS blocks the request
+  const kind: AnalysisErrorKind = err instanceof TypeError && /fetch|network/i.test(message) ? 'network' : 'unknown';
+  return new AnalysisError(kind, message, { detail: message, request });
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { PillarOptions, calculateFourPillars, parseSolarBirthDateTime } from "./baziCalendar";
+
+const pillarsOf = (date: string, time: string, options: PillarOptions = {}) => {
+  const dt = parseSolarBirthDateTime(date, time);
+  if (!dt) throw new Error(`bad fixture ${date} ${time}`);
+  const { year, month, day, hour } = calculateFourPillars(dt, options).pillars;
+  return [year, month, day, hour].join(" ");
+};
+
+describe("calculateFourPillars", () => {
+  it.each([
+    ["1990-05-15", "10:30", "庚午 辛巳 庚辰 辛巳"],
+    ["2000-01-01", "00:00", "己卯 丙子 戊午 壬子"],
+    ["2024-02-10", "12:00", "甲辰 丙寅 甲辰 庚午"],
+  ])("%s %s → %s", (date, time, expected) => {
+    expect(pillarsOf(date, time)).toBe(expected);
+  });
+
+  it("switches year and month pillars at 立春 (2024-02-04 16:27)", () => {
+    expect(pillarsOf("2024-02-04", "16:26").split(" ").slice(0, 2)).toEqual(["癸卯", "乙丑"]);
+    expect(pillarsOf("2024-02-04", "16:28").split(" ").slice(0, 2)).toEqual(["甲辰", "丙寅"]);
+  });
+
+  it("switches the month pillar at 惊蛰 (2024-03-05 10:23)", () => {
+    expect(pillarsOf("2024-03-05", "10:22").split(" ")[1]).toBe("丙寅");
+    expect(pillarsOf("2024-03-05", "10:24").split(" ")[1]).toBe("丁卯");
+  });
+
+  it("applies the 子时 rule after 23:00", () => {
+    expect(pillarsOf("2000-01-01", "23:30", { ziHourRule: "nextDay" })).toBe("己卯 丙子 己未 甲子");
+    expect(pillarsOf("2000-01-01", "23:30", { ziHourRule: "splitMidnight" })).toBe("己卯 丙子 戊午 甲子");
+  });
+});
+
+describe("parseSolarBirthDateTime", () => {
+  it("parses the form's date and time strings", () => {
+    expect(parseSolarBirthDateTime("1990-5-15", "9:05")).toEqual({ year: 1990, month: 5, day: 15, hour: 9, minute: 5 });
+  });
+
+  it("rejects days past the end of the month", () => {
+    expect(parseSolarBirthDateTime("2024-02-31", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2023-04-31", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2023-02-29", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2024-02-29", "10:00")).not.toBeNull();
+    expect(parseSolarBirthDateTime("1900-02-29", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2000-02-29", "10:00")).not.toBeNull();
+  });
+
+  it("rejects incomplete or out-of-range input", () => {
+    expect(parseSolarBirthDateTime("", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2024-02-10", undefined)).toBeNull();
+    expect(parseSolarBirthDateTime("1899-12-31", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2101-01-01", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2024-13-01", "10:00")).toBeNull();
+    expect(parseSolarBirthDateTime("2024-02-10", "24:00")).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { SolarBirthDateTime, FourPillars, ZiHourRule } from "../types";
+import { ganZhiFromCycleIndex, ganZhiFromIndexes, JIA_ZI } from "./ganZhi";
+import {
+  JieQiMoment,
+  findSurroundingJie,
+  getLiChun,
+  julianDayFromBeijingTime,
+  julianDayFromGregorian,
+} from "./solarTerms";
+import { TrueSolarTimeCorrection, correctToTrueSolarTime } from "./trueSolarTime";
+
+/**
+ * 本地排盘：由公历出生时刻（北京时间）推出四柱。
+ * - 年柱以立春为界（不是元旦，也不是农历正月初一）
+ * - 月柱以"节"为界，月干按五虎遁由年干推出
+ * - 日柱由儒略日数直接对应六十甲子；23 点后按子时规则决定是否换日
+ * - 时柱按时辰取支，时干按五鼠遁由日干推出
+ * - 提供经度时，日柱与时柱改用真太阳时；年柱、月柱看的是交节的绝对时刻，不受影响
+ */
+
+export interface PillarOptions {
+  longitude?: number | null;
+  ziHourRule?: ZiHourRule;
+}
+
+export interface PillarCalculation {
+  pillars: FourPillars;
+  monthJie: JieQiMoment; // 所在月令的起始"节"
+  birthJd: number;       // 出生时刻 (UT 儒略日)
+  trueSolarTime?: TrueSolarTimeCorrection;
+  warnings: string[];    // 真太阳时导致时辰/日柱变化等提示
+}
+
+// 1984 (甲子年) 为六十甲子起点
+const JIA_ZI_YEAR = 1984;
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+/** Hour (0-23) to 时辰 branch index: 23-1 子, 1-3 丑 … 21-23 亥. */
+export const hourBranchIndex = (hour: number): number => Math.floor((hour + 1) / 2) % 12;
+
+/** 五虎遁：年干 → 寅月天干。甲己之年丙作首…… */
+export const firstMonthStemIndex = (yearStemIndex: number): number => mod(yearStemIndex * 2 + 2, 10);
+
+/** 五鼠遁：日干 → 子时天干。甲己还加甲…… */
+export const ziHourStemIndex = (dayStemIndex: number): number => mod(dayStemIndex * 2, 10);
+
+/** Day pillar of a civil date, ignoring the hour. */
+export function dayPillarOfDate(year: number, month: number, day: number): string {
+  const jdn = Math.floor(julianDayFromGregorian(year, month, day) + 0.5);
+  return ganZhiFromCycleIndex(jdn + 49);
+}
+
+/**
+ * Day and hour pillars of a local clock time. From 23:00 the `nextDay` rule
+ * already uses the next day's pillar; `splitMidnight` keeps the day pillar
+ * and only takes the hour stem from the next day (夜子时).
+ */
+function dayAndHourPillars(local: SolarBirthDateTime, ziHourRule: ZiHourRule): { day: string; hour: string } {
+  const baseDayIndex = JIA_ZI.indexOf(dayPillarOfDate(local.year, local.month, local.day));
+  const isLateZi = local.hour >= 23;
+  const dayIndex = isLateZi && ziHourRule === 'nextDay' ? baseDayIndex + 1 : baseDayIndex;
+  const hourStemDayIndex = isLateZi ? baseDayIndex + 1 : baseDayIndex;
+
+  const hourBranch = hourBranchIndex(local.hour);
+  const hourStemIndex = ziHourStemIndex(mod(hourStemDayIndex, 10)) + hourBranch;
+  return {
+    day: ganZhiFromCycleIndex(dayIndex),
+    hour: ganZhiFromIndexes(hourStemIndex, hourBranch),
+  };
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+export function calculateFourPillars(dt: SolarBirthDateTime, options: PillarOptions = {}): PillarCalculation {
+  const ziHourRule = options.ziHourRule || 'nextDay';
+  const birthJd = julianDayFromBeijingTime(dt.year, dt.month, dt.day, dt.hour, dt.minute);
+
+  // Year pillar: switches at 立春
+  const pillarYear = birthJd >= getLiChun(dt.year) ? dt.year : dt.year - 1;
+  const yearIndex = mod(pillarYear - JIA_ZI_YEAR, 60);
+  const yearStemIndex = yearIndex % 10;
+
+  // Month pillar: branch from the governing 节 (小寒 → 丑, 立春 → 寅 … 大雪 → 子)
+  const { prev: monthJie } = findSurroundingJie(birthJd);
+  const monthBranchIndex = (monthJie.jieIndex + 1) % 12;
+  const monthsFromYin = mod(monthBranchIndex - 2, 12);
+  const monthStemIndex = firstMonthStemIndex(yearStemIndex) + monthsFromYin;
+
+  // Day and hour pillars follow local apparent solar time when a longitude is known
+  const clockPillars = dayAndHourPillars(dt, ziHourRule);
+  const trueSolarTime =
+    options.longitude !== undefined && options.longitude !== null
+      ? correctToTrueSolarTime(dt, options.longitude)
+      : undefined;
+  const local = trueSolarTime ? trueSolarTime.corrected : dt;
+  const { day, hour } = trueSolarTime ? dayAndHourPillars(local, ziHourRule) : clockPillars;
+
+  const warnings: string[] = [];
+  if (trueSolarTime) {
+    const hourChanged = hourBranchIndex(local.hour) !== hourBranchIndex(dt.hour);
+    if (hourChanged) {
+      warnings.push(
+        `真太阳时校正后时辰由${clockPillars.hour.charAt(1)}时变为${hour.charAt(1)}时（时柱 ${clockPillars.hour} → ${hour}）。`
+      );
+    }
+    if (day !== clockPillars.day) {
+      warnings.push(`校正后跨越换日界线，日柱由 ${clockPillars.day} 变为 ${day}，请核对出生时间。`);
+    }
+  }
+  if (local.hour >= 23) {
+    warnings.push(
+      ziHourRule === 'nextDay'
+        ? `出生于子时前半段（${pad2(local.hour)}:${pad2(local.minute)}），按子初换日，日柱已取次日。`
+        : `出生于夜子时（${pad2(local.hour)}:${pad2(local.minute)}），按早晚子时区分，日柱仍取当日，时干按次日起。`
+    );
+  }
+
+  return {
+    pillars: {
+      year: ganZhiFromCycleIndex(yearIndex),
+      month: ganZhiFromIndexes(monthStemIndex, monthBranchIndex),
+      day,
+      hour,
+    },
+    monthJie,
+    birthJd,
+    trueSolarTime,
+    warnings,
+  };
+}
+
+/** Parse the form's `YYYY-MM-DD` + `HH:mm` strings; returns null when incomplete or out of range. */
+export function parseSolarBirthDateTime(date?: string, time?: string): SolarBirthDateTime | null {
+  const dm = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec((date || '').trim());
+  const tm = /^(\d{1,2}):(\d{2})$/.exec((time || '').trim());
+  if (!dm || !tm) return null;
+  const [year, month, day] = [Number(dm[1]), Number(dm[2]), Number(dm[3])];
+  const [hour, minute] = [Number(tm[1]), Number(tm[2])];
+  if (year < 1900 || year > 2100) return null;
+  // Day 0 of the next month is the last day of this one, so 02-31 or 04-31 cannot roll over
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null;
+  if (hour > 23 || minute > 59) return null;
+  return { year, month, day, hour, minute };
+}
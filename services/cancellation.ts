@@ -0,0 +1,48 @@
+import { AnalysisError } from "./analysisErrors";
+
+/**
+ * 取消与超时：
+ * - 调用方的 AbortSignal 与整体超时合并成一个 signal，一路传到每个模型请求的 fetch 与退避等待
+ * - abort 的 reason 是 AnalysisError（cancelled / timeout），各层直接抛出 signal.reason 即可保留分类
+ */
+
+export const DEFAULT_TIMEOUT_MINUTES = 10;
+export const TIMEOUT_MINUTES_RANGE = { min: 1, max: 60 };
+
+export const cancelledError = () => new AnalysisError('cancelled', '推演已取消。');
+
+/**
+ * Abort scope that follows `parent` and aborts by itself after `timeoutMs`
+ * (or when `abort` is called). Call `dispose` once the work is done so the
+ * timer does not linger.
+ */
+export function createAbortScope(
+  parent?: AbortSignal,
+  timeoutMs?: number
+): { signal: AbortSignal; abort: (reason?: unknown) => void; dispose: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason ?? cancelledError());
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        const minutes = Math.round((timeoutMs / 60000) * 10) / 10;
+        controller.abort(new AnalysisError('timeout', `推演超过 ${minutes} 分钟仍未完成，已自动停止。`));
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    abort: (reason) => controller.abort(reason ?? cancelledError()),
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/** Throw the abort reason (normally an AnalysisError) if the signal has fired. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw signal.reason ?? cancelledError();
+}
@@ -0,0 +1,113 @@
+import { downloadBlob, sanitizeFileName } from "./download";
+
+/**
+ * K线图导出（纯前端）：
+ * - 复制页面上 recharts 渲染的 SVG（含大运分界线与标签），在顶部加上标题与图例，得到独立的 SVG 文件
+ * - PNG 由该 SVG 在 canvas 上按 PNG_SCALE 倍绘制，适合打印与分享
+ * - 打印报告复用同一份 SVG（data URL），见 components/PrintReport.tsx
+ */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const HEADER_HEIGHT = 56;
+const PNG_SCALE = 3;
+const FONT_FAMILY = '"Noto Serif SC", "PingFang SC", "Microsoft YaHei", sans-serif';
+
+export interface ChartImageOptions {
+  title: string;
+  subtitle?: string;
+}
+
+export interface ChartImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+export const findChartSvg = (root: ParentNode | null | undefined): SVGSVGElement | null =>
+  root?.querySelector<SVGSVGElement>("svg.recharts-surface") ?? null;
+
+function svgElement(tag: string, attrs: Record<string, string | number>, text?: string): SVGElement {
+  const el = document.createElementNS(SVG_NS, tag);
+  Object.entries(attrs).forEach(([key, value]) => el.setAttribute(key, String(value)));
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function legendItems(width: number): SVGElement {
+  const legend = svgElement("g", { transform: `translate(${width - 260}, 20)`, "font-size": 11, fill: "#4b5563" });
+  legend.append(
+    svgElement("rect", { x: 0, y: 0, width: 10, height: 10, fill: "#22c55e", stroke: "#16a34a" }),
+    svgElement("text", { x: 14, y: 9 }, "吉运 (涨)"),
+    svgElement("rect", { x: 80, y: 0, width: 10, height: 10, fill: "#ef4444", stroke: "#dc2626" }),
+    svgElement("text", { x: 94, y: 9 }, "凶运 (跌)"),
+    svgElement("line", { x1: 160, y1: 5, x2: 180, y2: 5, stroke: "#cbd5e1", "stroke-dasharray": "3 3" }),
+    svgElement("text", { x: 184, y: 9, fill: "#6366f1" }, "大运分界")
+  );
+  return legend;
+}
+
+/** Standalone SVG of the chart currently on screen, with a title and legend on top. */
+export function buildChartImage(svg: SVGSVGElement, options: ChartImageOptions): ChartImage {
+  const box = svg.getBoundingClientRect();
+  const width = Math.round(box.width) || svg.width.baseVal.value;
+  const chartHeight = Math.round(box.height) || svg.height.baseVal.value;
+  const height = chartHeight + HEADER_HEIGHT;
+
+  const chart = svg.cloneNode(true) as SVGSVGElement;
+  // Hover cursor and the pinned-year ring are transient UI, not part of the chart
+  chart.querySelectorAll(".recharts-tooltip-cursor, .chart-selection").forEach((el) => el.remove());
+  chart.setAttribute("x", "0");
+  chart.setAttribute("y", String(HEADER_HEIGHT));
+  chart.setAttribute("width", String(width));
+  chart.setAttribute("height", String(chartHeight));
+
+  const root = svgElement("svg", {
+    xmlns: SVG_NS,
+    width,
+    height,
+    viewBox: `0 0 ${width} ${height}`,
+    "font-family": FONT_FAMILY,
+  });
+  root.append(
+    svgElement("rect", { x: 0, y: 0, width, height, fill: "#ffffff" }),
+    svgElement("text", { x: 16, y: 28, "font-size": 18, "font-weight": "bold", fill: "#1f2937" }, options.title)
+  );
+  if (options.subtitle) {
+    root.append(svgElement("text", { x: 16, y: 46, "font-size": 11, fill: "#6b7280" }, options.subtitle));
+  }
+  root.append(legendItems(width), chart);
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+}
+
+export const chartImageDataUrl = (image: ChartImage) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.markup)}`;
+
+function renderPng(image: ChartImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("浏览器不支持 canvas 导出"));
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG 生成失败"))), "image/png");
+    };
+    img.onerror = () => reject(new Error("图表图片加载失败"));
+    img.src = chartImageDataUrl(image);
+  });
+}
+
+const chartFileName = (baseName: string, ext: string) =>
+  `${sanitizeFileName(baseName)}-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+export function exportChartSvg(image: ChartImage, baseName: string): void {
+  downloadBlob(new Blob([image.markup], { type: "image/svg+xml;charset=utf-8" }), chartFileName(baseName, "svg"));
+}
+
+export async function exportChartPng(image: ChartImage, baseName: string): Promise<void> {
+  downloadBlob(await renderPng(image, PNG_SCALE), chartFileName(baseName, "png"));
+}
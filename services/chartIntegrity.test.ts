@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { KLinePoint } from "../types";
+import { repairChartIntegrity } from "./chartIntegrity";
+
+const point = (age: number, patch: Record<string, unknown> = {}): KLinePoint =>
+  ({ age, year: 1989 + age, ganZhi: "庚午", open: 50, close: 55, high: 60, low: 45, score: 55, reason: "平稳", ...patch }) as KLinePoint;
+
+describe("repairChartIntegrity", () => {
+  it("passes a clean chart through unchanged", () => {
+    const chart = [point(1), point(2, { open: 55, close: 52 })];
+    expect(repairChartIntegrity(chart)).toEqual({ chartData: chart, warnings: [] });
+  });
+
+  it("does not mutate the input", () => {
+    const chart = [point(1, { high: 120 })];
+    repairChartIntegrity(chart);
+    expect(chart[0].high).toBe(120);
+  });
+
+  it("clamps values into 0–100", () => {
+    const { chartData, warnings } = repairChartIntegrity([point(1, { close: 104, high: 110, score: -3 })]);
+    expect(chartData[0]).toMatchObject({ close: 100, high: 100, score: 0 });
+    expect(warnings).toEqual([
+      { age: 1, kind: "clamped", field: "close", from: 104, to: 100 },
+      { age: 1, kind: "clamped", field: "high", from: 110, to: 100 },
+      { age: 1, kind: "clamped", field: "score", from: -3, to: 0 },
+    ]);
+  });
+
+  it("replaces non-numeric values, collapsing missing wicks onto the body", () => {
+    const { chartData, warnings } = repairChartIntegrity([point(1, { open: "50", high: null, low: undefined })]);
+    expect(chartData[0]).toMatchObject({ open: 50, close: 55, high: 55, low: 50 });
+    expect(warnings.map((w) => [w.kind, w.field, w.from, w.to])).toEqual([
+      ["nonNumeric", "open", "50", 50],
+      ["nonNumeric", "high", "null", 55],
+      ["nonNumeric", "low", "undefined", 50],
+    ]);
+  });
+
+  it("extends wicks that fall inside the body", () => {
+    const { chartData, warnings } = repairChartIntegrity([point(1, { open: 40, close: 70, high: 65, low: 45 })]);
+    expect(chartData[0]).toMatchObject({ high: 70, low: 40 });
+    expect(warnings).toEqual([
+      { age: 1, kind: "highBelowBody", field: "high", from: 65, to: 70 },
+      { age: 1, kind: "lowAboveBody", field: "low", from: 45, to: 40 },
+    ]);
+  });
+
+  it("keeps the first point of a repeated age and sorts by age", () => {
+    const { chartData, warnings } = repairChartIntegrity([point(3), point(1), point(3, { reason: "重复" }), point(2)]);
+    expect(chartData.map((p) => p.age)).toEqual([1, 2, 3]);
+    expect(chartData[2].reason).toBe("平稳");
+    expect(warnings).toEqual([{ age: 3, kind: "duplicateAge" }]);
+  });
+
+  describe("continuity mode", () => {
+    const chart = [point(2, { open: 62, close: 58, high: 63, low: 57 }), point(1, { open: 50, close: 60, high: 61, low: 49 })];
+
+    it("opens each year at the previous close and re-checks the wicks", () => {
+      const { chartData, warnings } = repairChartIntegrity(chart, { continuity: true });
+      expect(chartData[1]).toMatchObject({ open: 60, close: 58, high: 63, low: 57 });
+      expect(warnings).toEqual([{ age: 2, kind: "continuity", field: "open", from: 62, to: 60 }]);
+
+      const { chartData: widened } = repairChartIntegrity([point(1, { close: 70, high: 71 }), point(2, { open: 55, close: 60, high: 62 })], { continuity: true });
+      expect(widened[1]).toMatchObject({ open: 70, high: 70 });
+    });
+
+    it("is off by default", () => {
+      expect(repairChartIntegrity(chart).warnings).toEqual([]);
+    });
+  });
+});
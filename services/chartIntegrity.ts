@@ -0,0 +1,83 @@
+import { ChartIntegrityWarning, KLinePoint } from "../types";
+
+/**
+ * K线完整性修复：
+ * - 数值字段必须是有限数字，且落在 0-100
+ * - high >= max(open, close)，low <= min(open, close)，否则蜡烛会画出倒挂的影线
+ * - 同一年龄只保留第一个点，并按年龄排序
+ * - 连续模式（可选）：每年开盘价承接上一年收盘价，像真实行情一样首尾相接
+ * 每一处修改都记录为结构化 warning，随 LifeDestinyResult 一起返回。
+ */
+
+export interface ChartIntegrityOptions {
+  continuity?: boolean;
+}
+
+// open/close must come before high/low: the wick fallbacks read the body
+const PRICE_FIELDS = ['open', 'close', 'high', 'low', 'score'] as const;
+
+const MIN_VALUE = 0;
+const MAX_VALUE = 100;
+
+// Enforce the wick invariants on one candle, recording each fix
+function fixWicks(point: KLinePoint, warnings: ChartIntegrityWarning[]) {
+  const bodyTop = Math.max(point.open, point.close);
+  const bodyBottom = Math.min(point.open, point.close);
+  if (point.high < bodyTop) {
+    warnings.push({ age: point.age, kind: 'highBelowBody', field: 'high', from: point.high, to: bodyTop });
+    point.high = bodyTop;
+  }
+  if (point.low > bodyBottom) {
+    warnings.push({ age: point.age, kind: 'lowAboveBody', field: 'low', from: point.low, to: bodyBottom });
+    point.low = bodyBottom;
+  }
+}
+
+export function repairChartIntegrity(
+  chart: KLinePoint[],
+  options: ChartIntegrityOptions = {}
+): { chartData: KLinePoint[]; warnings: ChartIntegrityWarning[] } {
+  const warnings: ChartIntegrityWarning[] = [];
+  const seen = new Set<number>();
+  const points: KLinePoint[] = [];
+
+  for (const original of chart) {
+    if (seen.has(original.age)) {
+      warnings.push({ age: original.age, kind: 'duplicateAge' });
+      continue;
+    }
+    seen.add(original.age);
+
+    const point: KLinePoint = { ...original };
+    for (const field of PRICE_FIELDS) {
+      const value = point[field] as unknown;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        // Missing wicks collapse onto the body (open/close are fixed first); other fields fall back to a neutral 50
+        const to =
+          field === 'high' ? Math.max(point.open, point.close)
+          : field === 'low' ? Math.min(point.open, point.close)
+          : 50;
+        warnings.push({ age: point.age, kind: 'nonNumeric', field, from: String(value), to });
+        point[field] = to;
+      }
+      const clamped = Math.min(MAX_VALUE, Math.max(MIN_VALUE, point[field]));
+      if (clamped !== point[field]) {
+        warnings.push({ age: point.age, kind: 'clamped', field, from: point[field], to: clamped });
+        point[field] = clamped;
+      }
+    }
+    points.push(point);
+  }
+
+  points.sort((a, b) => a.age - b.age);
+
+  points.forEach((point, i) => {
+    if (options.continuity && i > 0 && point.open !== points[i - 1].close) {
+      warnings.push({ age: point.age, kind: 'continuity', field: 'open', from: point.open, to: points[i - 1].close });
+      point.open = points[i - 1].close;
+    }
+    fixWicks(point, warnings);
+  });
+
+  return { chartData: points, warnings };
+}
@@ -0,0 +1,96 @@
+import { LifeDestinyResult, UserInput } from "../types";
+import { promisify, withStore } from "./localDb";
+
+/**
+ * 命盘库：每次得到推演结果都自动存一份（IndexedDB charts 表），可搜索、重命名、删除与重新打开。
+ * 同一输入与模型（cacheKey 相同）只保留一条，重新推演时覆盖其结果。
+ * 最近查看的命盘 id 存在 localStorage，刷新页面后自动重新打开。
+ */
+
+export interface SavedChart {
+  id: string;
+  name: string;
+  input: UserInput;
+  result: LifeDestinyResult;
+  modelId: string;    // "provider/model"，服务端模式下由 /api/model 提供
+  createdAt: string;  // ISO 时间
+  cacheKey?: string;  // 规范化输入 + 模型的键（见 resultCache.ts）；导入与分享的命盘没有
+}
+
+const LAST_VIEWED_KEY = "lifeKLine.lastViewedChart";
+
+const withCharts = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>, fallback: T) =>
+  withStore("charts", mode, run, fallback);
+
+const newId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const defaultChartName = (input: UserInput): string =>
+  input.name?.trim() || [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar].join(" ");
+
+/** Newest first. */
+export function listSavedCharts(): Promise<SavedChart[]> {
+  return withCharts("readonly", async (store) => {
+    const charts = (await promisify(store.getAll())) as SavedChart[];
+    return charts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, []);
+}
+
+export function getSavedChart(id: string): Promise<SavedChart | null> {
+  return withCharts("readonly", async (store) => ((await promisify(store.get(id))) as SavedChart | undefined) ?? null, null);
+}
+
+export function findSavedChartByCacheKey(cacheKey: string): Promise<SavedChart | null> {
+  return listSavedCharts().then((charts) => charts.find((c) => c.cacheKey === cacheKey) ?? null);
+}
+
+/** Adds a chart, or replaces the entry with the same cacheKey (keeping its id and name) and moves it to the top. */
+export async function saveChart(chart: Omit<SavedChart, "id" | "createdAt" | "name"> & { name?: string }): Promise<SavedChart> {
+  const existing = chart.cacheKey ? await findSavedChartByCacheKey(chart.cacheKey) : null;
+  const saved: SavedChart = {
+    ...chart,
+    id: existing?.id ?? newId(),
+    name: chart.name || existing?.name || defaultChartName(chart.input),
+    createdAt: new Date().toISOString(),
+  };
+  await withCharts("readwrite", (store) => promisify(store.put(saved)), undefined);
+  return saved;
+}
+
+export function renameSavedChart(id: string, name: string): Promise<void> {
+  return withCharts("readwrite", async (store) => {
+    const chart = (await promisify(store.get(id))) as SavedChart | undefined;
+    if (chart) await promisify(store.put({ ...chart, name: name.trim() || chart.name }));
+  }, undefined);
+}
+
+export function deleteSavedChart(id: string): Promise<void> {
+  if (getLastViewedChartId() === id) setLastViewedChartId(null);
+  return withCharts("readwrite", (store) => promisify(store.delete(id)), undefined);
+}
+
+/** Case-insensitive match on name, pillars and model. */
+export function matchesChartQuery(chart: SavedChart, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const { input } = chart;
+  return [chart.name, input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar, input.birthYear, chart.modelId]
+    .some((field) => (field || "").toLowerCase().includes(q));
+}
+
+export function getLastViewedChartId(): string | null {
+  try {
+    return localStorage.getItem(LAST_VIEWED_KEY);
+  } catch (_e) {
+    return null;
+  }
+}
+
+export function setLastViewedChartId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(LAST_VIEWED_KEY, id);
+    else localStorage.removeItem(LAST_VIEWED_KEY);
+  } catch (_e) {
+    // storage unavailable (private mode)
+  }
+}
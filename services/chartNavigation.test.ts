@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { KLinePoint } from "../types";
+import { MIN_VISIBLE_YEARS, aggregateDaYun, clampRange, fullRange, panRange, zoomRange } from "./chartNavigation";
+import { CHILDHOOD_DA_YUN } from "./timeline";
+
+describe("clampRange", () => {
+  it("keeps at least MIN_VISIBLE_YEARS visible", () => {
+    expect(clampRange({ start: 10, end: 11 }, 100)).toEqual({ start: 10, end: 10 + MIN_VISIBLE_YEARS - 1 });
+  });
+
+  it("never shows more years than there are", () => {
+    expect(clampRange({ start: 0, end: 9 }, 3)).toEqual({ start: 0, end: 2 });
+    expect(clampRange({ start: -4, end: 200 }, 100)).toEqual(fullRange(100));
+  });
+
+  it("shifts a range back inside the data", () => {
+    expect(clampRange({ start: 95, end: 104 }, 100)).toEqual({ start: 90, end: 99 });
+    expect(clampRange({ start: -3, end: 6 }, 100)).toEqual({ start: 0, end: 9 });
+  });
+
+  it("handles an empty chart", () => {
+    expect(clampRange({ start: 3, end: 8 }, 0)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe("zoomRange", () => {
+  it("scales the span around the anchor", () => {
+    expect(zoomRange({ start: 0, end: 19 }, 0.5, 0.5, 100)).toEqual({ start: 5, end: 14 });
+    expect(zoomRange({ start: 0, end: 19 }, 0.5, 0, 100)).toEqual({ start: 0, end: 9 });
+    expect(zoomRange({ start: 40, end: 49 }, 2, 1, 100)).toEqual({ start: 30, end: 49 });
+  });
+
+  it("moves at least one year per step", () => {
+    expect(zoomRange({ start: 40, end: 49 }, 1.04, 0, 100)).toEqual({ start: 40, end: 50 });
+    expect(zoomRange({ start: 40, end: 49 }, 0.96, 0, 100)).toEqual({ start: 40, end: 48 });
+  });
+
+  it("stops at the minimum span and the full chart", () => {
+    expect(zoomRange({ start: 40, end: 45 }, 0.1, 0.5, 100)).toEqual({ start: 43, end: 47 });
+    expect(zoomRange({ start: 40, end: 89 }, 4, 0.5, 100)).toEqual(fullRange(100));
+  });
+});
+
+describe("panRange", () => {
+  it("shifts without changing the span, stopping at either end", () => {
+    expect(panRange({ start: 10, end: 19 }, 5, 100)).toEqual({ start: 15, end: 24 });
+    expect(panRange({ start: 85, end: 94 }, 10, 100)).toEqual({ start: 90, end: 99 });
+    expect(panRange({ start: 2, end: 11 }, -10, 100)).toEqual({ start: 0, end: 9 });
+  });
+});
+
+describe("aggregateDaYun", () => {
+  const point = (age: number, daYun: string | undefined, open: number, close: number, score: number): KLinePoint => ({
+    age, year: 1989 + age, ganZhi: "庚午", daYun, open, close,
+    high: Math.max(open, close) + age, low: Math.min(open, close) - age, score, reason: "平稳",
+  });
+
+  const candles = aggregateDaYun([
+    point(3, "壬午", 55, 50, 40),
+    point(1, undefined, 50, 52, 50),
+    point(2, "壬午", 52, 55, 60),
+    point(4, "壬午", 50, 61, 51),
+    point(5, "癸未", 61, 58, 45),
+  ]);
+
+  it("merges consecutive years of the same 大运 in age order", () => {
+    expect(candles.map((c) => [c.label, c.startAge, c.endAge, c.years])).toEqual([
+      [CHILDHOOD_DA_YUN, 1, 1, 1],
+      ["壬午", 2, 4, 3],
+      ["癸未", 5, 5, 1],
+    ]);
+  });
+
+  it("opens on the first year, closes on the last and spans the extremes", () => {
+    expect(candles[1]).toMatchObject({
+      open: 52, close: 61, high: 65, low: 46, startYear: 1991, endYear: 1993, upYears: 2, ganZhi: "壬午",
+    });
+  });
+
+  it("averages the score to one decimal", () => {
+    // (60 + 40 + 51) / 3 = 50.33…
+    expect(candles[1].score).toBe(50.3);
+  });
+});
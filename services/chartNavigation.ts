@@ -0,0 +1,87 @@
+import { KLinePoint } from "../types";
+import { CHILDHOOD_DA_YUN } from "./timeline";
+
+/**
+ * K线图的缩放、平移与周期切换：
+ * - 可见区间为按年龄排序后数据的下标区间 [start, end]（含两端），至少显示 MIN_VISIBLE_YEARS 年
+ * - 大运线：同一步大运（连续的相同 daYun）合成一根K线——开盘取首年开盘、收盘取末年收盘、最高 / 最低取区间极值
+ */
+
+export const MIN_VISIBLE_YEARS = 5;
+
+export type Timeframe = "year" | "daYun";
+
+export interface ChartRange {
+  start: number;
+  end: number;
+}
+
+export interface DaYunCandle extends KLinePoint {
+  label: string;     // 大运干支；缺少大运时按童限处理
+  startAge: number;
+  endAge: number;
+  startYear: number;
+  endYear: number;
+  years: number;
+  upYears: number;   // 收盘 ≥ 开盘的年数
+}
+
+export const fullRange = (total: number): ChartRange => ({ start: 0, end: Math.max(total - 1, 0) });
+
+/** Keeps the span (at least MIN_VISIBLE_YEARS, at most total) and shifts the range back inside the data. */
+export function clampRange(range: ChartRange, total: number): ChartRange {
+  if (total <= 0) return fullRange(total);
+  const span = Math.min(Math.max(range.end - range.start + 1, Math.min(MIN_VISIBLE_YEARS, total)), total);
+  const start = Math.min(Math.max(range.start, 0), total - span);
+  return { start, end: start + span - 1 };
+}
+
+/**
+ * Scales the visible span by `factor` (< 1 zooms in) around `anchor`, the
+ * 0–1 position of the cursor or pinch centre within the plot.
+ */
+export function zoomRange(range: ChartRange, factor: number, anchor: number, total: number): ChartRange {
+  const span = range.end - range.start + 1;
+  const nextSpan = Math.round(span * factor);
+  // Always move by at least one year so slow wheels still zoom
+  const adjusted = nextSpan === span ? span + Math.sign(factor - 1) : nextSpan;
+  const start = Math.round(range.start + Math.min(Math.max(anchor, 0), 1) * (span - adjusted));
+  return clampRange({ start, end: start + adjusted - 1 }, total);
+}
+
+export const panRange = (range: ChartRange, offset: number, total: number): ChartRange =>
+  clampRange({ start: range.start + offset, end: range.end + offset }, total);
+
+export function aggregateDaYun(points: KLinePoint[]): DaYunCandle[] {
+  const sorted = [...points].sort((a, b) => a.age - b.age);
+  const candles: DaYunCandle[] = [];
+  let start = 0;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i].daYun === sorted[start].daYun) continue;
+    const run = sorted.slice(start, i);
+    const first = run[0];
+    const last = run[run.length - 1];
+    const label = first.daYun || CHILDHOOD_DA_YUN;
+    candles.push({
+      age: first.age,
+      year: first.year,
+      ganZhi: label,
+      daYun: first.daYun,
+      open: first.open,
+      close: last.close,
+      high: Math.max(...run.map((p) => p.high)),
+      low: Math.min(...run.map((p) => p.low)),
+      score: Math.round((run.reduce((sum, p) => sum + p.score, 0) / run.length) * 10) / 10,
+      reason: "",
+      label,
+      startAge: first.age,
+      endAge: last.age,
+      startYear: first.year,
+      endYear: last.year,
+      years: run.length,
+      upYears: run.filter((p) => p.close >= p.open).length,
+    });
+    start = i;
+  }
+  return candles;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { KLinePoint } from "../types";
+import { EMPTY_FILTERS, daYunOptions, filterPoints, sortPoints, toCsv } from "./chartTable";
+
+const point = (age: number, daYun: string | undefined, open: number, close: number, reason = "平稳"): KLinePoint => ({
+  age, year: 1989 + age, ganZhi: "庚午", daYun, open, close, high: Math.max(open, close), low: Math.min(open, close), score: close, reason,
+});
+
+const points = [
+  point(1, undefined, 50, 52),
+  point(2, "壬午", 52, 48),
+  point(3, "壬午", 48, 48),
+  point(4, "癸未", 48, 60),
+  point(5, "癸未", 60, 52),
+];
+
+const ages = (rows: KLinePoint[]) => rows.map((p) => p.age);
+
+describe("filterPoints", () => {
+  it("returns everything for empty filters", () => {
+    expect(filterPoints(points, EMPTY_FILTERS)).toEqual(points);
+  });
+
+  it("combines 大运, age range and trend", () => {
+    expect(ages(filterPoints(points, { ...EMPTY_FILTERS, daYun: "壬午" }))).toEqual([2, 3]);
+    expect(ages(filterPoints(points, { ...EMPTY_FILTERS, ageFrom: 2, ageTo: 4 }))).toEqual([2, 3, 4]);
+    // A flat year (close = open) counts as up, like the candle colour
+    expect(ages(filterPoints(points, { ...EMPTY_FILTERS, trend: "up" }))).toEqual([1, 3, 4]);
+    expect(ages(filterPoints(points, { daYun: "癸未", ageFrom: null, ageTo: null, trend: "down" }))).toEqual([5]);
+  });
+});
+
+describe("sortPoints", () => {
+  it("sorts numbers numerically and keeps age order on ties", () => {
+    expect(ages(sortPoints(points, { key: "close", direction: "asc" }))).toEqual([2, 3, 1, 5, 4]);
+    expect(ages(sortPoints(points, { key: "close", direction: "desc" }))).toEqual([4, 1, 5, 2, 3]);
+  });
+
+  it("sorts text by pinyin and puts a missing 大运 first", () => {
+    // 癸 (guǐ) before 壬 (rén)
+    expect(ages(sortPoints(points, { key: "daYun", direction: "asc" }))).toEqual([1, 4, 5, 2, 3]);
+    expect(ages(sortPoints(points, { key: "daYun", direction: "desc" }))).toEqual([2, 3, 4, 5, 1]);
+  });
+
+  it("does not reorder the input", () => {
+    sortPoints(points, { key: "close", direction: "asc" });
+    expect(ages(points)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("daYunOptions", () => {
+  it("lists each 大运 once in chart order", () => {
+    expect(daYunOptions(points)).toEqual(["壬午", "癸未"]);
+  });
+});
+
+describe("toCsv", () => {
+  it("starts with a BOM and joins rows with CRLF", () => {
+    const csv = toCsv([point(1, undefined, 50, 52)]);
+    expect(csv.startsWith("\uFEFF年龄,年份,流年,大运,开盘,收盘,最高,最低,评分,批断\r\n")).toBe(true);
+    expect(csv.split("\r\n")[1]).toBe("1,1990,庚午,,50,52,52,50,52,平稳");
+  });
+
+  it("quotes fields with commas, quotes or line breaks", () => {
+    const csv = toCsv([point(1, "壬午", 50, 52, '财运"旺",宜进取\n慎投资')]);
+    expect(csv.endsWith(',"财运""旺"",宜进取\n慎投资"')).toBe(true);
+  });
+});
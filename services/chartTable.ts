@@ -0,0 +1,94 @@
+import { KLinePoint } from "../types";
+import { downloadBlob, sanitizeFileName } from "./download";
+import { CellValue, buildXlsx } from "./xlsx";
+
+/**
+ * 流年明细表：列定义、筛选（大运 / 年龄段 / 涨跌）、排序，以及 CSV / XLSX 导出。
+ * 导出的是当前筛选与排序后的行，与页面上看到的一致。
+ */
+
+export type TableColumnKey = "age" | "year" | "ganZhi" | "daYun" | "open" | "close" | "high" | "low" | "score" | "reason";
+
+export const TABLE_COLUMNS: { key: TableColumnKey; label: string; numeric: boolean; width: number }[] = [
+  { key: "age", label: "年龄", numeric: true, width: 6 },
+  { key: "year", label: "年份", numeric: true, width: 8 },
+  { key: "ganZhi", label: "流年", numeric: false, width: 8 },
+  { key: "daYun", label: "大运", numeric: false, width: 8 },
+  { key: "open", label: "开盘", numeric: true, width: 7 },
+  { key: "close", label: "收盘", numeric: true, width: 7 },
+  { key: "high", label: "最高", numeric: true, width: 7 },
+  { key: "low", label: "最低", numeric: true, width: 7 },
+  { key: "score", label: "评分", numeric: true, width: 7 },
+  { key: "reason", label: "批断", numeric: false, width: 80 },
+];
+
+export type TrendFilter = "all" | "up" | "down";
+
+export interface TableFilters {
+  daYun: string; // 空字符串表示全部
+  ageFrom: number | null;
+  ageTo: number | null;
+  trend: TrendFilter;
+}
+
+export interface TableSort {
+  key: TableColumnKey;
+  direction: "asc" | "desc";
+}
+
+export const EMPTY_FILTERS: TableFilters = { daYun: "", ageFrom: null, ageTo: null, trend: "all" };
+
+// 与K线颜色一致：收盘 ≥ 开盘为涨
+export const isUpYear = (point: KLinePoint) => point.close >= point.open;
+
+/** 大运 in chart order, each listed once. */
+export const daYunOptions = (points: KLinePoint[]): string[] =>
+  Array.from(new Set(points.map((p) => p.daYun || "").filter(Boolean)));
+
+export function filterPoints(points: KLinePoint[], filters: TableFilters): KLinePoint[] {
+  return points.filter(
+    (p) =>
+      (!filters.daYun || p.daYun === filters.daYun) &&
+      (filters.ageFrom === null || p.age >= filters.ageFrom) &&
+      (filters.ageTo === null || p.age <= filters.ageTo) &&
+      (filters.trend === "all" || (filters.trend === "up") === isUpYear(p))
+  );
+}
+
+export function sortPoints(points: KLinePoint[], sort: TableSort): KLinePoint[] {
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return [...points].sort((a, b) => {
+    const x = a[sort.key] ?? "";
+    const y = b[sort.key] ?? "";
+    const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y), "zh-CN");
+    // Ties keep age order so the table stays stable
+    return order * sign || a.age - b.age;
+  });
+}
+
+const tableRows = (points: KLinePoint[]): CellValue[][] => [
+  TABLE_COLUMNS.map((c) => c.label),
+  ...points.map((p) => TABLE_COLUMNS.map((c) => p[c.key] ?? "")),
+];
+
+const csvField = (value: CellValue) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV with a UTF-8 BOM so Excel detects the encoding and shows Chinese correctly. */
+export function toCsv(points: KLinePoint[]): string {
+  return "\uFEFF" + tableRows(points).map((row) => row.map(csvField).join(",")).join("\r\n");
+}
+
+const tableFileName = (baseName: string, ext: string) =>
+  `${sanitizeFileName(`流年明细-${baseName}`)}-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+export function exportCsv(points: KLinePoint[], baseName: string): void {
+  downloadBlob(new Blob([toCsv(points)], { type: "text/csv;charset=utf-8" }), tableFileName(baseName, "csv"));
+}
+
+export function exportXlsx(points: KLinePoint[], baseName: string): void {
+  const blob = buildXlsx("流年明细", tableRows(points), TABLE_COLUMNS.map((c) => c.width));
+  downloadBlob(blob, tableFileName(baseName, "xlsx"));
+}
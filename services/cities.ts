@@ -0,0 +1,132 @@
+/**
+ * 离线城市经度表（用于真太阳时校正）。
+ * 覆盖各省会、直辖市、港澳台及常见地级市；经度取市区中心，东经为正，保留两位小数。
+ * 表中查不到的出生地可在表单里直接填写经度。
+ */
+
+export interface CityLongitude {
+  name: string;
+  province: string;
+  longitude: number;
+}
+
+export const CHINA_CITIES: CityLongitude[] = [
+  // 直辖市
+  { name: '北京', province: '北京', longitude: 116.40 },
+  { name: '天津', province: '天津', longitude: 117.20 },
+  { name: '上海', province: '上海', longitude: 121.47 },
+  { name: '重庆', province: '重庆', longitude: 106.55 },
+  // 华北
+  { name: '石家庄', province: '河北', longitude: 114.51 },
+  { name: '唐山', province: '河北', longitude: 118.18 },
+  { name: '保定', province: '河北', longitude: 115.46 },
+  { name: '邯郸', province: '河北', longitude: 114.54 },
+  { name: '太原', province: '山西', longitude: 112.55 },
+  { name: '大同', province: '山西', longitude: 113.30 },
+  { name: '呼和浩特', province: '内蒙古', longitude: 111.75 },
+  { name: '包头', province: '内蒙古', longitude: 109.84 },
+  // 东北
+  { name: '沈阳', province: '辽宁', longitude: 123.43 },
+  { name: '大连', province: '辽宁', longitude: 121.61 },
+  { name: '鞍山', province: '辽宁', longitude: 122.99 },
+  { name: '长春', province: '吉林', longitude: 125.32 },
+  { name: '吉林', province: '吉林', longitude: 126.55 },
+  { name: '延吉', province: '吉林', longitude: 129.51 },
+  { name: '哈尔滨', province: '黑龙江', longitude: 126.53 },
+  { name: '齐齐哈尔', province: '黑龙江', longitude: 123.92 },
+  { name: '大庆', province: '黑龙江', longitude: 125.10 },
+  { name: '牡丹江', province: '黑龙江', longitude: 129.63 },
+  { name: '佳木斯', province: '黑龙江', longitude: 130.32 },
+  // 华东
+  { name: '南京', province: '江苏', longitude: 118.80 },
+  { name: '苏州', province: '江苏', longitude: 120.58 },
+  { name: '无锡', province: '江苏', longitude: 120.31 },
+  { name: '常州', province: '江苏', longitude: 119.97 },
+  { name: '南通', province: '江苏', longitude: 120.89 },
+  { name: '扬州', province: '江苏', longitude: 119.41 },
+  { name: '徐州', province: '江苏', longitude: 117.28 },
+  { name: '杭州', province: '浙江', longitude: 120.16 },
+  { name: '宁波', province: '浙江', longitude: 121.55 },
+  { name: '温州', province: '浙江', longitude: 120.70 },
+  { name: '绍兴', province: '浙江', longitude: 120.58 },
+  { name: '金华', province: '浙江', longitude: 119.65 },
+  { name: '台州', province: '浙江', longitude: 121.42 },
+  { name: '合肥', province: '安徽', longitude: 117.23 },
+  { name: '芜湖', province: '安徽', longitude: 118.43 },
+  { name: '福州', province: '福建', longitude: 119.30 },
+  { name: '厦门', province: '福建', longitude: 118.09 },
+  { name: '泉州', province: '福建', longitude: 118.68 },
+  { name: '南昌', province: '江西', longitude: 115.86 },
+  { name: '赣州', province: '江西', longitude: 114.93 },
+  { name: '济南', province: '山东', longitude: 117.00 },
+  { name: '青岛', province: '山东', longitude: 120.38 },
+  { name: '烟台', province: '山东', longitude: 121.45 },
+  { name: '潍坊', province: '山东', longitude: 119.16 },
+  { name: '淄博', province: '山东', longitude: 118.05 },
+  { name: '临沂', province: '山东', longitude: 118.36 },
+  { name: '济宁', province: '山东', longitude: 116.59 },
+  // 华中
+  { name: '郑州', province: '河南', longitude: 113.63 },
+  { name: '洛阳', province: '河南', longitude: 112.45 },
+  { name: '开封', province: '河南', longitude: 114.31 },
+  { name: '南阳', province: '河南', longitude: 112.53 },
+  { name: '武汉', province: '湖北', longitude: 114.31 },
+  { name: '宜昌', province: '湖北', longitude: 111.29 },
+  { name: '襄阳', province: '湖北', longitude: 112.14 },
+  { name: '长沙', province: '湖南', longitude: 112.94 },
+  { name: '株洲', province: '湖南', longitude: 113.13 },
+  { name: '衡阳', province: '湖南', longitude: 112.57 },
+  // 华南
+  { name: '广州', province: '广东', longitude: 113.26 },
+  { name: '深圳', province: '广东', longitude: 114.06 },
+  { name: '东莞', province: '广东', longitude: 113.75 },
+  { name: '佛山', province: '广东', longitude: 113.12 },
+  { name: '珠海', province: '广东', longitude: 113.58 },
+  { name: '中山', province: '广东', longitude: 113.39 },
+  { name: '惠州', province: '广东', longitude: 114.42 },
+  { name: '江门', province: '广东', longitude: 113.08 },
+  { name: '汕头', province: '广东', longitude: 116.68 },
+  { name: '湛江', province: '广东', longitude: 110.36 },
+  { name: '南宁', province: '广西', longitude: 108.37 },
+  { name: '桂林', province: '广西', longitude: 110.29 },
+  { name: '柳州', province: '广西', longitude: 109.41 },
+  { name: '海口', province: '海南', longitude: 110.20 },
+  { name: '三亚', province: '海南', longitude: 109.51 },
+  // 西南
+  { name: '成都', province: '四川', longitude: 104.07 },
+  { name: '绵阳', province: '四川', longitude: 104.68 },
+  { name: '贵阳', province: '贵州', longitude: 106.63 },
+  { name: '遵义', province: '贵州', longitude: 106.93 },
+  { name: '昆明', province: '云南', longitude: 102.83 },
+  { name: '大理', province: '云南', longitude: 100.27 },
+  { name: '丽江', province: '云南', longitude: 100.23 },
+  { name: '拉萨', province: '西藏', longitude: 91.11 },
+  { name: '日喀则', province: '西藏', longitude: 88.88 },
+  // 西北
+  { name: '西安', province: '陕西', longitude: 108.94 },
+  { name: '咸阳', province: '陕西', longitude: 108.71 },
+  { name: '宝鸡', province: '陕西', longitude: 107.24 },
+  { name: '延安', province: '陕西', longitude: 109.49 },
+  { name: '兰州', province: '甘肃', longitude: 103.83 },
+  { name: '天水', province: '甘肃', longitude: 105.72 },
+  { name: '敦煌', province: '甘肃', longitude: 94.66 },
+  { name: '西宁', province: '青海', longitude: 101.78 },
+  { name: '银川', province: '宁夏', longitude: 106.23 },
+  { name: '乌鲁木齐', province: '新疆', longitude: 87.62 },
+  { name: '库尔勒', province: '新疆', longitude: 86.15 },
+  { name: '伊宁', province: '新疆', longitude: 81.32 },
+  { name: '哈密', province: '新疆', longitude: 93.51 },
+  { name: '喀什', province: '新疆', longitude: 75.99 },
+  // 港澳台
+  { name: '香港', province: '香港', longitude: 114.17 },
+  { name: '澳门', province: '澳门', longitude: 113.54 },
+  { name: '台北', province: '台湾', longitude: 121.56 },
+  { name: '高雄', province: '台湾', longitude: 120.30 },
+];
+
+/** Look up a city by name, tolerating a trailing 市 and surrounding whitespace. */
+export const findCity = (name: string): CityLongitude | undefined => {
+  const key = (name || '').trim().replace(/市$/, '');
+  if (!key) return undefined;
+  return CHINA_CITIES.find((c) => c.name === key);
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { Gender, SolarBirthDateTime } from "../types";
+import { calculateDaYunStart, isDaYunForward } from "./daYun";
+
+const birth: SolarBirthDateTime = { year: 1990, month: 5, day: 15, hour: 10, minute: 30 };
+
+describe("isDaYunForward", () => {
+  it("runs 阳男阴女 forward and 阴男阳女 backward", () => {
+    expect(isDaYunForward("庚午", Gender.MALE)).toBe(true);
+    expect(isDaYunForward("辛未", Gender.FEMALE)).toBe(true);
+    expect(isDaYunForward("辛未", Gender.MALE)).toBe(false);
+    expect(isDaYunForward("庚午", Gender.FEMALE)).toBe(false);
+  });
+
+  it("returns null for an invalid year pillar", () => {
+    expect(isDaYunForward("", Gender.MALE)).toBeNull();
+  });
+});
+
+describe("calculateDaYunStart", () => {
+  it("counts forward to the next 节 for a 阳男", () => {
+    const start = calculateDaYunStart(birth, Gender.MALE);
+    expect(start.forward).toBe(true);
+    expect(start.jie.name).toBe("芒种");
+    // 21.84 days × 4 months = 7 years 3 months 11 days
+    expect([start.years, start.months, start.days]).toEqual([7, 3, 11]);
+    expect(start.startAge).toBe(8);
+    expect(start.firstDaYun).toBe("壬午");
+  });
+
+  it("counts back to the previous 节 for a 阳女", () => {
+    const start = calculateDaYunStart(birth, Gender.FEMALE);
+    expect(start.forward).toBe(false);
+    expect(start.jie.name).toBe("立夏");
+    expect([start.years, start.months, start.days]).toEqual([3, 1, 9]);
+    expect(start.startAge).toBe(4);
+    expect(start.firstDaYun).toBe("庚辰");
+  });
+
+  it("carries a rounded-up 24th hour into the days", () => {
+    // 3 days 23 h 48 min before 惊蛰 (2024-03-05 10:23)
+    const start = calculateDaYunStart({ year: 2024, month: 3, day: 1, hour: 10, minute: 35 }, Gender.MALE);
+    expect(start.daysToJie % 1).toBeGreaterThan(0.979);
+    expect(start.explanation[1]).toContain("相距 4 天 0 小时");
+    expect(start.explanation.join("")).not.toContain("24 小时");
+  });
+});
@@ -0,0 +1,79 @@
+import { Gender, SolarBirthDateTime } from "../types";
+import { calculateFourPillars } from "./baziCalendar";
+import { getStemPolarity, shiftGanZhi } from "./ganZhi";
+import { JieQiMoment, findSurroundingJie, formatBeijingTime } from "./solarTerms";
+
+/**
+ * 起运与大运推算：
+ * - 方向：阳男阴女顺行，阴男阳女逆行（以年干阴阳论）
+ * - 起运：顺行数到下一个"节"，逆行数到上一个"节"；三天折一年、一天折四个月、一时辰折十天
+ * - 第一步大运：由月柱在六十甲子中顺推或逆推一位
+ */
+
+export interface DaYunStart {
+  forward: boolean;
+  jie: JieQiMoment;       // 用来计数的节（顺行取下一个节，逆行取上一个节）
+  daysToJie: number;      // 出生到该节的间隔天数（可带小数）
+  years: number;          // 出生后 years 年 months 个月 days 天起运
+  months: number;
+  days: number;
+  startAge: number;       // 起运年龄（虚岁）
+  startJd: number;        // 约略起运时刻 (UT 儒略日)
+  firstDaYun: string;
+  explanation: string[];  // 推算过程说明，供表单展示
+}
+
+/** 阳男阴女顺行，阴男阳女逆行；年干无效时返回 null */
+export const isDaYunForward = (yearPillar: string, gender: Gender): boolean | null => {
+  const yearStemPolarity = getStemPolarity(yearPillar);
+  if (!yearStemPolarity) return null;
+  return gender === Gender.MALE ? yearStemPolarity === 'YANG' : yearStemPolarity === 'YIN';
+};
+
+export function calculateDaYunStart(dt: SolarBirthDateTime, gender: Gender): DaYunStart {
+  const { pillars, birthJd } = calculateFourPillars(dt);
+  // Computed year pillars are always valid 干支
+  const forward = isDaYunForward(pillars.year, gender) === true;
+
+  const { prev, next } = findSurroundingJie(birthJd);
+  const jie = forward ? next : prev;
+  const daysToJie = Math.abs(jie.jd - birthJd);
+
+  // 传统折算按一年 360 天、一月 30 天：1 天 = 4 个月 = 120 天，1 时辰 = 10 天
+  const offsetDays = daysToJie * 120;
+  const years = Math.floor(offsetDays / 360);
+  const months = Math.floor((offsetDays - years * 360) / 30);
+  const days = Math.floor(offsetDays - years * 360 - months * 30);
+
+  // 虚岁 = 周岁 + 1；出生当年即算 1 岁
+  const startAge = years + 1;
+  const firstDaYun = shiftGanZhi(pillars.month, forward ? 1 : -1);
+  // 起运时刻按实际回归年换算：3 天 = 1 年
+  const startJd = birthJd + (daysToJie / 3) * 365.2422;
+
+  // Round to whole hours first so 23.6 h carries into the days instead of showing 24 小时
+  const totalHours = Math.round(daysToJie * 24);
+  const wholeDays = Math.floor(totalHours / 24);
+  const hours = totalHours % 24;
+  const directionLabel = forward ? '顺行' : '逆行';
+  const polarityLabel = getStemPolarity(pillars.year) === 'YANG' ? '阳' : '阴';
+  const genderLabel = gender === Gender.MALE ? '男' : '女';
+
+  return {
+    forward,
+    jie,
+    daysToJie,
+    years,
+    months,
+    days,
+    startAge,
+    startJd,
+    firstDaYun,
+    explanation: [
+      `年柱${pillars.year}为${polarityLabel}年，${polarityLabel}${genderLabel}大运${directionLabel}。`,
+      `${forward ? '顺数至下一个节' : '逆数至上一个节'}【${jie.name}】（${formatBeijingTime(jie.jd)}），相距 ${wholeDays} 天 ${hours} 小时。`,
+      `按三天折一年、一天折四个月、一时辰折十天，约出生后 ${years} 年 ${months} 个月 ${days} 天起运，起运年龄取虚岁 ${startAge} 岁（约 ${formatBeijingTime(startJd).slice(0, 7)}）。`,
+      `月柱${pillars.month}${forward ? '顺推' : '逆推'}一位，第一步大运为【${firstDaYun}】。`,
+    ],
+  };
+}
@@ -0,0 +1,15 @@
+/** 浏览器端文件下载的公共工具（报告、图表、表格导出共用）。 */
+
+export const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\s]+/g, "_").slice(0, 60);
+
+/** Triggers a browser download of `blob` under `fileName`. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
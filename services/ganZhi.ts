@@ -0,0 +1,42 @@
+/**
+ * 干支基础工具：
+ * - 天干、地支与六十甲子表
+ * - 干支与序号互转、在六十甲子中前后推移
+ */
+
+export const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+export const EARTHLY_BRANCHES = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+
+// 六十甲子：index 0 = 甲子, 1 = 乙丑 ... 59 = 癸亥
+export const JIA_ZI: string[] = Array.from(
+  { length: 60 },
+  (_, i) => HEAVENLY_STEMS[i % 10] + EARTHLY_BRANCHES[i % 12]
+);
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+/**
+ * Build a pillar from stem/branch indexes. Indexes must share parity
+ * (阳干配阳支), which is always the case when derived from the cycle.
+ */
+export const ganZhiFromIndexes = (stemIndex: number, branchIndex: number): string =>
+  HEAVENLY_STEMS[mod(stemIndex, 10)] + EARTHLY_BRANCHES[mod(branchIndex, 12)];
+
+export const ganZhiFromCycleIndex = (index: number): string => JIA_ZI[mod(index, 60)];
+
+/** Returns the 0-59 position in the 六十甲子, or -1 when the string is not a valid pillar. */
+export const cycleIndexOf = (pillar: string): number => JIA_ZI.indexOf((pillar || '').trim());
+
+/** Step a pillar forward (positive) or backward (negative) through the 六十甲子. */
+export const shiftGanZhi = (pillar: string, steps: number): string => {
+  const idx = cycleIndexOf(pillar);
+  if (idx === -1) return '';
+  return ganZhiFromCycleIndex(idx + steps);
+};
+
+/** Stem polarity of a pillar, or null when the first character is not a 天干 (never guess a direction). */
+export const getStemPolarity = (pillar: string): 'YANG' | 'YIN' | null => {
+  const stemIndex = HEAVENLY_STEMS.indexOf((pillar || '').trim().charAt(0));
+  if (stemIndex === -1) return null;
+  return stemIndex % 2 === 0 ? 'YANG' : 'YIN';
+};
@@ -1,9 +1,25 @@
-import { UserInput, LifeDestinyResult, Gender } from "../types";
-import { BAZI_SYSTEM_INSTRUCTION } from "../constants";
+import { UserInput, LifeDestinyResult, Gender, AnalysisData, KLinePoint, GenerationAttempt, SchemaIssue } from "../types";
+import { BAZI_SYSTEM_INSTRUCTION, CHART_CHUNK_OUTPUT_INSTRUCTION, REPORT_OUTPUT_INSTRUCTION } from "../constants";
+import { isDaYunForward } from "./daYun";
+import { buildLifeTimeline, reconcileChartWithTimeline, TimelineEntry } from "./timeline";
+import { repairChartIntegrity } from "./chartIntegrity";
+import { createJsonArrayItemParser } from "./jsonStream";
+import { CompletionResult, ModelConfig, getProvider } from "./llmProviders";
+import { AnalysisError, classifyError } from "./analysisErrors";
+import {
+  formatSchemaIssue,
+  schemaErrors,
+  validateAnalysisData,
+  validateChartData,
+  validateLifeDestinyResult,
+} from "./resultSchema";
+import { RETRY_POLICY, backoffDelayMs, isRetryableTransportError, sleep } from "./retryPolicy";
+import { createAbortScope, throwIfAborted } from "./cancellation";
 
 /**
  * 服务职责：
- * - 从 import.meta.env 读取模型配置并调用 OpenAI（注意：前端暴露密钥有风险，生产建议 server-side 转发）
+ * - 按调用方传入的 ModelConfig 调用模型（OpenAI / Gemini / Anthropic / OpenAI 兼容，见 llmProviders.ts）；
+ *   本模块不读取环境变量，可同时运行在 Node 服务端（server/index.ts）与本地直连模式的浏览器中
  * - 尽量安全、稳健地解析模型返回（包含多种修复策略）
  * - 增强诊断：当返回结构不满足要求时，记录原始 content 与解析后的结构，并尝试进行兼容性修复（normalize）
  *
@@ -12,33 +28,34 @@ import { BAZI_SYSTEM_INSTRUCTION } from "../constants";
  * - normalizeParsedData：尝试兼容常见别名和类型（例如把 "chart" / "points" / "chart_data" 映射为 chartData；把逗号分隔字符串改为数组等）
  * - 更严格的 prompt（包含最小示例并使用包裹标记），避免模型输出多余文本
  * - 当校验失败时，输出详细调试日志（Vercel 日志可见）并在错误消息中包含原始 output 的前段和解析后数据的摘要，便于快速定位
+ * - 流年/大运以本地时间线为准（timeline.ts），模型给错的 year/ganZhi/daYun 会被覆盖并记录在 corrections 中
+ * - K线 OHLC 经 chartIntegrity.ts 修复（钳制范围、修正影线、去重，可选连续模式），修复记录在 integrityWarnings 中
+ * - 分段生成：命理报告一次请求，K线按大运（含童限）每段一次请求，限流并发执行，失败的段单独重试后再合并
+ * - 运行时校验（resultSchema.ts）：每个问题带路径，如 chartData[37].high: expected number ≥ low；
+ *   error 驱动修正请求，warning 交给本地修复，最终仍存在的问题随结果返回（validationIssues）
+ * - 失败自愈：429/5xx/网络错误按指数退避重试（遵循 Retry-After）；JSON 解析或校验失败时附上原输出与问题发送修正请求；
+ *   每次失败通过 onAttempt 上报
+ * - 流式输出（SSE）：每根K线的 JSON 对象一闭合即通过 onPoint 回调推送，全部结束后再统一校验
+ * - 可取消：options.signal 传到每个请求的 fetch 与退避等待，abort 后排队中的请求不再发出（见 cancellation.ts）
  */
 
-// Vite 注入的环境变量（若未设置则为空字符串）
-const API_KEY = (import.meta.env.VITE_OPENAI_KEY as string) || "";
-const API_BASE_URL = (import.meta.env.VITE_OPENAI_BASE as string) || "https://api.openai.com/v1";
-const MODEL = (import.meta.env.VITE_OPENAI_MODEL as string) || "gpt-5";
-
-// Helper to determine stem polarity
-const getStemPolarity = (pillar: string): 'YANG' | 'YIN' => {
-  if (!pillar) return 'YANG'; // default
-  const firstChar = pillar.trim().charAt(0);
-  const yangStems = ['甲', '丙', '戊', '庚', '壬'];
-  const yinStems = ['乙', '丁', '己', '辛', '癸'];
-
-  if (yangStems.includes(firstChar)) return 'YANG';
-  if (yinStems.includes(firstChar)) return 'YIN';
-  return 'YANG'; // fallback
-};
 
-const validateLifeDestinyData = (data: any): boolean => {
-  if (!data) return false;
-  const chart = data.chartPoints || data.chartData;
-  const analysis = data.analysis;
-  if (!Array.isArray(chart) || chart.length === 0) return false;
-  if (!analysis || typeof analysis !== 'object') return false;
-  if (!Array.isArray(analysis.bazi) || analysis.bazi.length < 4) return false;
-  return true;
+// 同时在途的模型请求数上限（每个请求的尝试次数见 retryPolicy.ts）
+const MODEL_CONCURRENCY = 3;
+const MAX_TOKENS_PER_REQUEST = 4000;
+
+/** 把本地时间线压缩成 "1-7岁 童限；8-17岁 壬午 …" 写进 prompt */
+const describeDaYunSchedule = (timeline: TimelineEntry[]): string => {
+  const segments: string[] = [];
+  let start = timeline[0];
+  timeline.forEach((entry, i) => {
+    const next = timeline[i + 1];
+    if (!next || next.daYun !== entry.daYun) {
+      segments.push(`${start.age}-${entry.age}岁(${start.year}-${entry.year}) ${entry.daYun}`);
+      if (next) start = next;
+    }
+  });
+  return segments.join('；');
 };
 
 /**
@@ -273,6 +290,12 @@ function normalizeParsedData(raw: any): any {
     });
   }
 
+  // The report may come back flat ({ bazi, summary, ... }) instead of nested under analysis
+  if (!data.analysis && data.bazi !== undefined && data.summary !== undefined) {
+    const { chartData: _chart, chartPoints: _points, ...flat } = data;
+    data.analysis = flat;
+  }
+
   // Normalize analysis.bazi
   if (data.analysis && typeof data.analysis === 'object') {
     const bazi = data.analysis.bazi;
@@ -284,6 +307,13 @@ function normalizeParsedData(raw: any): any {
       // attempt to coerce to array if possible
       data.analysis.bazi = Array.isArray(bazi) ? bazi : [bazi];
     }
+    // Scores sometimes come back as "8" or "8/10"
+    for (const key of Object.keys(data.analysis)) {
+      const value = data.analysis[key];
+      if (key.endsWith('Score') && typeof value === 'string' && /^\s*\d+(\.\d+)?/.test(value)) {
+        data.analysis[key] = parseFloat(value);
+      }
+    }
   }
 
   // If no chartData but data.chart exists as object (maybe single-year), attempt wrap
@@ -298,44 +328,262 @@ function normalizeParsedData(raw: any): any {
   return data;
 }
 
-export const generateLifeAnalysis = async (input: UserInput): Promise<LifeDestinyResult> => {
-  if (!API_KEY) {
-    console.error("OpenAI API key 未设置。请在 Vite 环境变量中添加 VITE_OPENAI_KEY。");
-    throw new Error("OpenAI API key 未设置 (VITE_OPENAI_KEY)。请在 Vercel 环境变量或 .env.local 中配置。");
+/**
+ * A chart chunk is one 大运 decade (or the 童限 before 起运). Without a valid
+ * timeline we fall back to plain ten-year slices.
+ */
+interface ChartChunk {
+  label: string;
+  fromAge: number;
+  toAge: number;
+  entries: TimelineEntry[] | null;
+}
+
+function planChartChunks(timeline: TimelineEntry[] | null): ChartChunk[] {
+  if (!timeline) {
+    return Array.from({ length: 10 }, (_, i) => ({
+      label: `${i * 10 + 1}-${i * 10 + 10}岁`,
+      fromAge: i * 10 + 1,
+      toAge: i * 10 + 10,
+      entries: null,
+    }));
   }
+  const chunks: ChartChunk[] = [];
+  for (const entry of timeline) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.label === entry.daYun) {
+      last.toAge = entry.age;
+      last.entries!.push(entry);
+    } else {
+      chunks.push({ label: entry.daYun, fromAge: entry.age, toAge: entry.age, entries: [entry] });
+    }
+  }
+  return chunks;
+}
 
-  const genderStr = input.gender === Gender.MALE ? '男 (乾造)' : '女 (坤造)';
-  const startAgeInt = parseInt(input.startAge) || 1;
-
-  const yearStemPolarity = getStemPolarity(input.yearPillar);
-  let isForward = false;
-  if (input.gender === Gender.MALE) {
-    isForward = yearStemPolarity === 'YANG';
-  } else {
-    isForward = yearStemPolarity === 'YIN';
+/** Minimal p-limit: at most `limit` tasks run at once, the rest queue in order. */
+function createLimiter(limit: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task().then(resolve, reject).finally(() => {
+          active--;
+          next();
+        });
+      });
+      next();
+    });
+}
+
+async function callChatCompletion(
+  config: ModelConfig,
+  userPrompt: string,
+  onDelta?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
+  return getProvider(config.provider).complete(config, {
+    system: BAZI_SYSTEM_INSTRUCTION,
+    user: userPrompt,
+    temperature: config.temperature ?? 0.0,
+    maxTokens: config.maxTokens ?? MAX_TOKENS_PER_REQUEST,
+    onDelta,
+    signal,
+  });
+}
+
+function parseAndNormalize(content: string): any {
+  // Parse with repair heuristics
+  let data: any;
+  try {
+    data = safeParseModelJson(content);
+  } catch (e: any) {
+    throw new Error(`无法解析模型返回的 JSON（尝试抽取失败）: ${e.message}`);
   }
+  // Try normalization to accept common variants
+  return normalizeParsedData(data);
+}
+
+// Use marker-wrapping to help extraction. Avoid embedding raw backticks by using ${'```json'} trick.
+const outputRules = (example: object) => `
+    请严格遵守以下要求：
+    1) 只输出一个合法的 JSON 对象（不要在 JSON 之外输出任何文字说明）。
+    2) 为便于程序抽取，请把 JSON 用下面的标记包裹（并只在这两个标记之间输出 JSON）：
+       ###JSON_START###
+       ${'```json'}
+       ${JSON.stringify(example)}
+       ${'```'}
+       ###JSON_END###
+    3) JSON 字段名请严格按模板返回。
+    4) 避免把数组作为字符串返回；字符串请使用双引号。
+`;
 
+function buildPromptContext(input: UserInput, isForward: boolean, timeline: TimelineEntry[] | null): string {
+  const genderStr = input.gender === Gender.MALE ? '男 (乾造)' : '女 (坤造)';
   const daYunDirectionStr = isForward ? '顺行 (Forward)' : '逆行 (Backward)';
   const directionExample = isForward
     ? "例如：第一步是【戊申】，第二步则是【己酉】（顺排）"
     : "例如：第一步是【戊申】，第二步则是【丁未】（逆排）";
 
-  // Provide a minimal JSON example to the model to reduce format variance.
-  const minimalExample = {
-    chartData: [
-      {
-        age: 1,
-        year: 1990,
-        ganZhi: "甲子",
-        daYun: "甲子",
-        open: 50,
-        close: 55,
-        high: 60,
-        low: 45,
-        score: 6,
-        reason: "示例：该年有利于学习与积累，注意健康。"
-      }
-    ],
+  return `
+    请根据以下**已经排好的**八字四柱和**指定的大运信息**进行分析。
+
+    【基本信息】
+    性别：${genderStr}
+    姓名：${input.name || "未提供"}
+    出生年份：${input.birthYear || "未知"}年 (阳历)
+
+    【八字四柱】
+    年柱：${input.yearPillar}
+    月柱：${input.monthPillar}
+    日柱：${input.dayPillar}
+    时柱：${input.hourPillar}
+
+    【起运与大运】
+    起运年龄（虚岁）：${input.startAge}
+    第一步大运：${input.firstDaYun}
+    大运方向：${daYunDirectionStr}，${directionExample}
+    ${timeline ? `大运时间表（已由程序排定，daYun 字段请严格照此填写）：${describeDaYunSchedule(timeline)}` : ''}
+  `;
+}
+
+// value 为 null 表示不可用；issues 中的 error 触发修正请求，warning 留给本地修复
+type ValidationOutcome<T> = { value: T | null; issues: SchemaIssue[] };
+
+/**
+ * Run one model request under the retry policy:
+ * - transport errors back off (honoring Retry-After) and resend the same prompt
+ * - parse/validation failures send a repair prompt with the broken output and the issues
+ * A partial value (validated with issues left) is kept and returned when
+ * `acceptPartial` is set and attempts run out. An aborted `signal` ends the
+ * loop at once with the abort reason, without retrying.
+ */
+async function requestWithRepair<T>(params: {
+  config: ModelConfig;
+  task: string;
+  prompt: string;
+  validate: (normalized: any) => ValidationOutcome<T>;
+  onDelta?: () => ((text: string) => void) | undefined;
+  onAttempt?: (attempt: GenerationAttempt) => void;
+  acceptPartial?: boolean;
+  signal?: AbortSignal;
+}): Promise<T> {
+  const { config, task, prompt, validate, onAttempt, signal } = params;
+  const maxAttempts = RETRY_POLICY.maxAttempts;
+  let repair: { output: string; issues: SchemaIssue[] } | null = null;
+  let best: ValidationOutcome<T> | null = null;
+  let lastError: Error = new Error(`${task}生成失败`);
+  let attemptsMade = 0;
+
+  const report = (attempt: number, error: string, next: GenerationAttempt['next'], delayMs?: number) => {
+    console.warn(`[generateLifeAnalysis] ${task} 第 ${attempt}/${maxAttempts} 次尝试失败（${next}）：`, error);
+    onAttempt?.({ task, attempt, maxAttempts, error, next, delayMs });
+  };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const isLast = attempt === maxAttempts;
+    attemptsMade = attempt;
+    throwIfAborted(signal);
+    let completion: CompletionResult;
+    try {
+      const userPrompt = repair ? buildRepairPrompt(prompt, repair.output, repair.issues) : prompt;
+      completion = await callChatCompletion(config, userPrompt, params.onDelta?.(), signal);
+    } catch (err: any) {
+      throwIfAborted(signal);
+      lastError = err;
+      if (!isRetryableTransportError(err) || isLast) break;
+      const delayMs = backoffDelayMs(attempt, err.retryAfterMs);
+      report(attempt, err.message, 'backoff', delayMs);
+      await sleep(delayMs, signal);
+      continue;
+    }
+
+    const content = completion.text;
+    let parsed: any;
+    let outcome: ValidationOutcome<T>;
+    let kind: AnalysisError['kind'] = 'schema';
+    try {
+      parsed = parseAndNormalize(content);
+      outcome = validate(parsed);
+    } catch (err: any) {
+      kind = 'unparseable';
+      outcome = { value: null, issues: [{ path: '$', message: err.message, severity: 'error' }] };
+    }
+    if (completion.truncated) {
+      // A cut-off answer usually also fails to parse; report the root cause instead
+      kind = 'truncated';
+      outcome.issues.unshift({
+        path: '$',
+        message: `output truncated at the token limit (${completion.stopReason}); shorten the text fields so the JSON fits`,
+        severity: 'error',
+      });
+    }
+    const errors = schemaErrors(outcome.issues);
+    if (outcome.value !== null && errors.length === 0) return outcome.value;
+
+    if (outcome.value !== null && (!best || errors.length < schemaErrors(best.issues).length)) best = outcome;
+    const summary = errors.slice(0, 5).map(formatSchemaIssue).join('；') + (errors.length > 5 ? ` 等 ${errors.length} 处` : '');
+    lastError = new AnalysisError(kind, `${task}未通过校验：${summary}`, {
+      rawOutput: content,
+      parsed,
+      issues: outcome.issues,
+      request: { task, stopReason: completion.stopReason },
+    });
+    // Detailed debug logging - will appear in Vercel logs
+    console.error(`[generateLifeAnalysis] ${task} 原始输出（前2000字符）:\n`, content.slice(0, 2000));
+    if (!isLast) {
+      report(attempt, summary, 'repair');
+      repair = { output: content, issues: outcome.issues };
+    }
+  }
+
+  if (params.acceptPartial && best?.value) {
+    report(maxAttempts, lastError.message, 'acceptPartial');
+    return best.value;
+  }
+  report(maxAttempts, lastError.message, 'giveUp');
+  throw classifyError(lastError, { task, attempts: attemptsMade });
+}
+
+// 修正请求：附上原任务、上一次的输出与具体问题，只要修正后的 JSON
+const REPAIR_OUTPUT_LIMIT = 12000;
+
+const REPAIR_ISSUE_LIMIT = 40;
+
+function buildRepairPrompt(prompt: string, output: string, issues: SchemaIssue[]): string {
+  // Errors first; warnings are fixed locally but worth pointing out
+  const ordered = [...schemaErrors(issues), ...issues.filter((i) => i.severity === 'warning')].slice(0, REPAIR_ISSUE_LIMIT);
+  return `${prompt}
+
+    【修正任务】你上一次按上述要求给出的输出未能通过程序校验，问题如下（路径: 期望）：
+    ${ordered.map((issue) => `- ${formatSchemaIssue(issue)}`).join('\n    ')}
+
+    上一次的输出${output.length > REPAIR_OUTPUT_LIMIT ? `（过长，仅保留前 ${REPAIR_OUTPUT_LIMIT} 字）` : ''}：
+    <<<
+    ${output.slice(0, REPAIR_OUTPUT_LIMIT)}
+    >>>
+
+    请逐条修正以上问题，只输出修正后的完整 JSON（仍用 ###JSON_START### 与 ###JSON_END### 包裹），不要任何解释。`;
+}
+
+function validateReport(normalized: any): ValidationOutcome<AnalysisData> {
+  const issues = validateAnalysisData(normalized?.analysis);
+  return { value: schemaErrors(issues).length === 0 ? (normalized.analysis as AnalysisData) : null, issues };
+}
+
+async function generateReport(
+  config: ModelConfig,
+  context: string,
+  onAttempt?: (attempt: GenerationAttempt) => void,
+  signal?: AbortSignal
+): Promise<AnalysisData> {
+  const example = {
     analysis: {
       bazi: ["甲子", "乙丑", "丙寅", "丁卯"],
       summary: "示例摘要",
@@ -352,108 +600,210 @@ export const generateLifeAnalysis = async (input: UserInput): Promise<LifeDestin
       familyScore: 6
     }
   };
+  return requestWithRepair({
+    config,
+    task: '命理报告',
+    prompt: `${context}\n${REPORT_OUTPUT_INSTRUCTION}\n${outputRules(example)}`,
+    validate: validateReport,
+    onAttempt,
+    signal,
+  });
+}
 
-  // Use marker-wrapping to help extraction. Avoid embedding raw backticks by using ${'```json'} trick.
-  const userPrompt = `
-    请根据以下**已经排好的**八字四柱和**指定的大运信息**进行分析。
+/**
+ * Generate one chunk. Missing ages are repaired like any other validation
+ * issue; if attempts run out with a partial answer, the most complete one is
+ * kept and the gaps are flagged by the timeline reconciliation.
+ */
+async function generateChartChunk(
+  config: ModelConfig,
+  context: string,
+  chunk: ChartChunk,
+  onPoint?: (point: KLinePoint) => void,
+  onAttempt?: (attempt: GenerationAttempt) => void,
+  signal?: AbortSignal
+): Promise<KLinePoint[]> {
+  const yearTable = chunk.entries
+    ? chunk.entries.map((e) => `${e.age}岁 ${e.year}年 流年${e.ganZhi} 大运${e.daYun}`).join('\n    ')
+    : '';
+  const example = {
+    chartPoints: [
+      {
+        age: chunk.fromAge,
+        year: chunk.entries?.[0].year ?? 1990,
+        ganZhi: chunk.entries?.[0].ganZhi ?? "甲子",
+        daYun: chunk.entries?.[0].daYun ?? "甲子",
+        open: 50,
+        close: 55,
+        high: 60,
+        low: 45,
+        score: 55,
+        reason: "示例：该年有利于学习与积累，注意健康。"
+      }
+    ]
+  };
+  const prompt = `${context}
+    【本次任务】只生成 ${chunk.fromAge}-${chunk.toAge} 岁（${chunk.label}）的流年K线，共 ${chunk.toAge - chunk.fromAge + 1} 条。
+    ${yearTable ? `各年对应关系（已排定，请照此填写 age/year/ganZhi/daYun）：\n    ${yearTable}` : ''}
+    ${CHART_CHUNK_OUTPUT_INSTRUCTION}
+    ${outputRules(example)}`;
+
+  // Emit each candle as soon as its object closes in the stream (a fresh parser per attempt)
+  const streamDelta = () =>
+    onPoint
+      ? createJsonArrayItemParser('chartPoints', (item) => {
+          const [point] = normalizeParsedData({ chartData: [item] }).chartData;
+          if (point && point.age >= chunk.fromAge && point.age <= chunk.toAge) onPoint(point);
+        }).push
+      : undefined;
+
+  const validate = (normalized: any): ValidationOutcome<KLinePoint[]> => {
+    const chart = Array.isArray(normalized?.chartData) ? normalized.chartData : normalized?.chartData;
+    const issues = validateChartData(chart, 'chartPoints', {
+      birthYear: chunk.entries ? chunk.entries[0].year - chunk.entries[0].age + 1 : undefined,
+      ageRange: { from: chunk.fromAge, to: chunk.toAge },
+    });
+    const points = (Array.isArray(chart) ? chart : []).filter(
+      (p: any) => p && p.age >= chunk.fromAge && p.age <= chunk.toAge
+    ) as KLinePoint[];
+    return { value: points.length > 0 ? points : null, issues };
+  };
 
-    【基本信息】
-    性别：${genderStr}
-    姓名：${input.name || "未提供"}
-    出生年份：${input.birthYear || "未知"}年 (阳历)
+  return requestWithRepair({
+    config,
+    task: `K线 ${chunk.fromAge}-${chunk.toAge} 岁（${chunk.label}）`,
+    prompt,
+    validate,
+    onDelta: streamDelta,
+    onAttempt,
+    acceptPartial: true,
+    signal,
+  });
+}
 
-    【八字四柱】
-    年柱：${input.yearPillar}
-    月柱：${input.monthPillar}
-    日柱：${input.dayPillar}
-    时柱：${input.hourPillar}
+export interface GenerationOptions {
+  /**
+   * Called for every candle as it streams in, already range-checked and
+   * aligned with the local timeline. The same age may arrive again when a
+   * chunk is retried; the final result is authoritative.
+   */
+  onPoint?: (point: KLinePoint) => void;
+  /** Called whenever a request fails and is retried, repaired or given up on. */
+  onAttempt?: (attempt: GenerationAttempt) => void;
+  /** Aborts every in-flight and queued model request; the abort reason is rethrown. */
+  signal?: AbortSignal;
+}
 
-    【起运与大运】
-    起运年龄（虚岁）：${input.startAge}
-    第一步大运：${input.firstDaYun}
-    大运方向：${daYunDirectionStr}，${directionExample}
+export const runLifeAnalysis = async (
+  input: UserInput,
+  config: ModelConfig,
+  options: GenerationOptions = {}
+): Promise<LifeDestinyResult> => {
+  const provider = getProvider(config.provider);
+  if (provider.requiresApiKey && !config.apiKey) {
+    console.error(`${provider.label} API key 未设置。`);
+    throw new AnalysisError(
+      'missingKey',
+      `${provider.label} API key 未设置。请在服务端环境变量 LLM_API_KEY 中配置（本地直连模式使用 .env.local 中的 VITE_LLM_API_KEY）。`,
+      { request: { provider: config.provider, model: config.model, baseUrl: config.baseUrl } }
+    );
+  }
 
-    ${BAZI_SYSTEM_INSTRUCTION}
+  const isForward = isDaYunForward(input.yearPillar, input.gender);
+  if (isForward === null) {
+    throw new AnalysisError(
+      'invalidInput',
+      `年柱「${input.yearPillar}」不是有效的干支，无法确定大运方向。`,
+      { request: { provider: config.provider, model: config.model, baseUrl: config.baseUrl } }
+    );
+  }
 
-    请严格遵守以下要求：
-    1) 只输出一个合法的 JSON 对象（不要在 JSON 之外输出任何文字说明）。
-    2) 为便于程序抽取，请把 JSON 用下面的标记包裹（并只在这两个标记之间输出 JSON）：
-       ###JSON_START###
-       ${'```json'}
-       ${JSON.stringify(minimalExample)}
-       ${'```'}
-       ###JSON_END###
-    3) JSON 字段名请严格按模板返回，chartData 必须是数组，analysis.bazi 必须是字符串数组。
-    4) 避免把数组作为字符串返回；字符串请使用双引号。
-    5) 如果无法完整生成整套 1-100 岁的数据，请至少保证 chartData 为非空数组并在 analysis 中返回 bazi（数组）。
-  `;
+  const timeline = buildLifeTimeline(input);
+  const context = buildPromptContext(input, isForward, timeline);
+  const chunks = planChartChunks(timeline);
+  const timelineByAge = new Map((timeline || []).map((e) => [e.age, e]));
+
+  const emitPoint = options.onPoint
+    ? (raw: KLinePoint) => {
+        const [point] = repairChartIntegrity([raw]).chartData;
+        if (!point) return;
+        const entry = timelineByAge.get(point.age);
+        options.onPoint!(entry ? { ...point, year: entry.year, ganZhi: entry.ganZhi, daYun: entry.daYun } : point);
+      }
+    : undefined;
 
+  const startedAt = Date.now();
+  // Follows the caller's signal, and also stops the chunks once the report has failed
+  const scope = createAbortScope(options.signal);
   try {
-    const res = await fetch(`${API_BASE_URL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${API_KEY}`
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [
-          { role: "system", content: BAZI_SYSTEM_INSTRUCTION },
-          { role: "user", content: userPrompt }
-        ],
-        temperature: 0.0,
-        max_tokens: 4000
-      })
+    // One report request plus one request per 大运 chunk, sharing the same concurrency budget
+    const limit = createLimiter(MODEL_CONCURRENCY);
+    const { onAttempt } = options;
+    const signal = scope.signal;
+    const reportPromise = limit(() => generateReport(config, context, onAttempt, signal));
+    const chunkPromises = chunks.map((chunk) => limit(() => generateChartChunk(config, context, chunk, emitPoint, onAttempt, signal)));
+    // Without a report the analysis fails anyway; don't keep paying for queued or running chunks
+    reportPromise.catch(() => scope.abort());
+    const [analysis, chunkResults] = await Promise.all([reportPromise, Promise.allSettled(chunkPromises)]);
+    // Chunks rejected by an abort must not pass for a partial result
+    throwIfAborted(signal);
+
+    const mergedChart: KLinePoint[] = [];
+    chunkResults.forEach((r, i) => {
+      if (r.status === 'fulfilled') {
+        mergedChart.push(...r.value);
+      } else {
+        console.error(`[generateLifeAnalysis] K线 ${chunks[i].fromAge}-${chunks[i].toAge} 岁最终失败：`, r.reason);
+      }
     });
 
-    if (!res.ok) {
-      const errText = await res.text();
-      throw new Error(`API 请求失败: ${res.status} - ${errText}`);
+    if (mergedChart.length === 0) {
+      const firstFailure = chunkResults.find((r) => r.status === 'rejected') as PromiseRejectedResult | undefined;
+      const reason = classifyError(firstFailure?.reason ?? new Error('未知原因'));
+      reason.message = `所有K线分段均生成失败：${reason.message}`;
+      throw reason;
     }
 
-    const jsonResult = await res.json();
-    const content = jsonResult.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("模型未返回任何内容。");
+    // Repair candles first (this also drops duplicate ages), then align with the timeline
+    const integrity = repairChartIntegrity(mergedChart, { continuity: input.continuousKLine });
+    if (integrity.warnings.length > 0) {
+      console.warn("[generateLifeAnalysis] K线数据已修复：", integrity.warnings);
     }
 
-    // Parse with repair heuristics
-    let data: any;
-    try {
-      data = safeParseModelJson(content);
-    } catch (e: any) {
-      throw new Error(`无法解析模型返回的 JSON（尝试抽取失败）: ${e.message}`);
+    // Age/year/流年/大运 are deterministic: trust the local timeline over the model
+    const { chartData, corrections } = timeline
+      ? reconcileChartWithTimeline(integrity.chartData, timeline)
+      : { chartData: integrity.chartData, corrections: [] };
+    if (corrections.length > 0) {
+      console.warn("[generateLifeAnalysis] 已按本地时间线校正：", corrections);
     }
 
-    // Try normalization to accept common variants
-    const normalized = normalizeParsedData(data);
-
-    // Validate normalized result
-    if (!validateLifeDestinyData(normalized)) {
-      // Detailed debug logging - will appear in Vercel logs
-      console.error("[generateLifeAnalysis] 模型原始输出（前4000字符）:\n", content.slice(0, 4000));
-      console.error("[generateLifeAnalysis] 解析后对象顶层键：", Object.keys(data || {}));
-      console.error("[generateLifeAnalysis] 规范化后顶层键：", Object.keys(normalized || {}));
-      console.error("[generateLifeAnalysis] chartData isArray:", Array.isArray(normalized?.chartData), "length:", normalized?.chartData?.length);
-      console.error("[generateLifeAnalysis] analysis type:", typeof normalized?.analysis, "bazi isArray:", Array.isArray(normalized?.analysis?.bazi));
-      // throw error with helpful snapshot
-      throw new Error(
-        "模型返回的数据不完整或格式不正确。请检查 prompt 或模型输出格式。\n\n" +
-        "原始输出（前2000字）:\n" + content.slice(0, 2000) + "\n\n" +
-        "解析后数据（JSON 前500字）:\n" + JSON.stringify(normalized).slice(0, 500)
-      );
+    // Final pass over the repaired result; whatever is left is reported, not fatal
+    const validationIssues = validateLifeDestinyResult({ chartData, analysis }, {
+      birthYear: timeline ? timeline[0].year : undefined,
+    });
+    if (validationIssues.length > 0) {
+      console.warn("[generateLifeAnalysis] 最终校验仍有问题：", validationIssues.map(formatSchemaIssue));
     }
 
-    const chartData = normalized.chartData;
-    const analysis = normalized.analysis;
-
     return {
       chartData,
-      analysis
+      analysis,
+      corrections,
+      integrityWarnings: integrity.warnings,
+      validationIssues
     } as LifeDestinyResult;
   } catch (err: any) {
     console.error("generateLifeAnalysis 错误：", err);
-    throw new Error(err?.message || 'generateLifeAnalysis 发生未知错误');
+    // Every failure leaves here classified, with enough request context for the diagnostics panel
+    throw classifyError(err, {
+      provider: config.provider,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+    });
+  } finally {
+    scope.dispose();
   }
 };
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { KLinePoint } from "../types";
+import { bollinger, daYunAverage, ema, macd, movingAverage, rsi, withIndicators } from "./indicators";
+
+const point = (age: number, close: number, daYun = ""): KLinePoint => ({
+  age, year: 1989 + age, ganZhi: "庚午", daYun, open: close, close, high: close, low: close, score: 50, reason: "平稳",
+});
+
+describe("movingAverage", () => {
+  it("averages each full window and leaves the warm-up null", () => {
+    expect(movingAverage([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe("bollinger", () => {
+  it("uses the population standard deviation", () => {
+    const [, , band] = bollinger([1, 2, 3], 3, 2);
+    expect(band.mid).toBe(2);
+    expect(band.upper).toBeCloseTo(2 + 2 * Math.sqrt(2 / 3), 10);
+    expect(band.lower).toBeCloseTo(2 - 2 * Math.sqrt(2 / 3), 10);
+  });
+
+  it("collapses on a flat series", () => {
+    expect(bollinger([5, 5, 5], 3)[2]).toEqual({ upper: 5, mid: 5, lower: 5 });
+    expect(bollinger([5, 5], 3)[1]).toEqual({ upper: null, mid: null, lower: null });
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the first value", () => {
+    // k = 2 / (3 + 1) = 0.5
+    expect(ema([10, 20, 20], 3)).toEqual([10, 15, 17.5]);
+  });
+});
+
+describe("macd", () => {
+  it("stays null until the slow EMA has a full period", () => {
+    const values = macd(Array.from({ length: 30 }, (_, i) => 50 + i));
+    expect(values[24]).toEqual({ dif: null, dea: null, hist: null });
+    expect(values[25].dif).not.toBeNull();
+  });
+
+  it("is positive on a rising series with hist = 2 × (dif − dea)", () => {
+    const last = macd(Array.from({ length: 40 }, (_, i) => 50 + i)).at(-1)!;
+    expect(last.dif).toBeGreaterThan(0);
+    expect(last.hist).toBeCloseTo(2 * (last.dif! - last.dea!), 10);
+  });
+
+  it("is zero on a flat series", () => {
+    expect(macd(Array(30).fill(50)).at(-1)).toEqual({ dif: 0, dea: 0, hist: 0 });
+  });
+});
+
+describe("rsi", () => {
+  it("starts after one period and then applies Wilder smoothing", () => {
+    const values = [...Array.from({ length: 15 }, (_, i) => (i % 2 ? 2 : 1)), 2];
+    const out = rsi(values, 14);
+    expect(out.slice(0, 14).every((v) => v === null)).toBe(true);
+    expect(out[14]).toBeCloseTo(50, 10);
+    // avgGain = (0.5 × 13 + 1) / 14, avgLoss = 0.5 × 13 / 14
+    expect(out[15]).toBeCloseTo(100 - 100 / (1 + 7.5 / 6.5), 10);
+  });
+
+  it("handles one-sided and flat series", () => {
+    expect(rsi([1, 2, 3], 2)[2]).toBe(100);
+    expect(rsi([3, 2, 1], 2)[2]).toBe(0);
+    expect(rsi([1, 1, 1], 2)[2]).toBe(50);
+  });
+});
+
+describe("daYunAverage", () => {
+  it("repeats each run's mean close and skips years without a 大运", () => {
+    const points = [point(1, 40), point(2, 60), point(3, 50, "壬午"), point(4, 70, "壬午"), point(5, 30, "癸未")];
+    expect(daYunAverage(points)).toEqual([null, null, 60, 60, 30]);
+  });
+});
+
+describe("withIndicators", () => {
+  it("sorts by age and rounds to two decimals", () => {
+    const rows = withIndicators([point(3, 3), point(1, 1), point(2, 1), point(4, 1), point(5, 1)]);
+    expect(rows.map((r) => r.age)).toEqual([1, 2, 3, 4, 5]);
+    expect(rows[4].ma5).toBe(1.4);
+    expect(rows[3].ma5).toBeNull();
+    expect(rows[4].rsi).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import { KLinePoint } from "../types";
+
+/**
+ * K线技术指标（均基于收盘价 close）：
+ * - 主图叠加：MA5 / MA10 / MA20、布林带 (20, 2)、大运均线（同一步大运内各年收盘的平均值）
+ * - 副图：MACD (12, 26, 9) 与 RSI (14，Wilder 平滑)
+ * 数据不足一个周期的位置为 null，图上不画线
+ */
+
+export type OverlayKey = "ma5" | "ma10" | "ma20" | "boll" | "daYunAvg";
+export type SubPanelKey = "none" | "macd" | "rsi";
+
+export const OVERLAYS: { key: OverlayKey; label: string; color: string }[] = [
+  { key: "ma5", label: "MA5", color: "#f59e0b" },
+  { key: "ma10", label: "MA10", color: "#3b82f6" },
+  { key: "ma20", label: "MA20", color: "#a855f7" },
+  { key: "boll", label: "布林带", color: "#64748b" },
+  { key: "daYunAvg", label: "大运均线", color: "#6366f1" },
+];
+
+export const SUB_PANELS: { key: SubPanelKey; label: string }[] = [
+  { key: "none", label: "无副图" },
+  { key: "macd", label: "MACD" },
+  { key: "rsi", label: "RSI" },
+];
+
+export const INDICATOR_COLORS = {
+  macdDif: "#f59e0b",
+  macdDea: "#3b82f6",
+  rsi: "#a855f7",
+};
+
+export const MACD_PERIODS = { fast: 12, slow: 26, signal: 9 };
+export const RSI_PERIOD = 14;
+export const BOLL_PERIOD = 20;
+export const BOLL_WIDTH = 2;
+export const RSI_BANDS = { overbought: 70, oversold: 30 };
+
+export interface IndicatorValues {
+  ma5: number | null;
+  ma10: number | null;
+  ma20: number | null;
+  bollUpper: number | null;
+  bollMid: number | null;
+  bollLower: number | null;
+  daYunAvg: number | null;
+  macdDif: number | null;
+  macdDea: number | null;
+  macdHist: number | null;
+  rsi: number | null;
+}
+
+export type IndicatorPoint = KLinePoint & IndicatorValues;
+
+const round2 = (value: number | null) => (value === null ? null : Math.round(value * 100) / 100);
+
+export function movingAverage(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+export function bollinger(values: number[], period = BOLL_PERIOD, width = BOLL_WIDTH) {
+  const mid = movingAverage(values, period);
+  return mid.map((mean, i) => {
+    if (mean === null) return { upper: null, mid: null, lower: null };
+    const window = values.slice(i - period + 1, i + 1);
+    const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    return { upper: mean + width * sd, mid: mean, lower: mean - width * sd };
+  });
+}
+
+// EMA seeded with the first value, as most charting packages do for MACD
+export function ema(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  const out: number[] = [];
+  values.forEach((value, i) => out.push(i === 0 ? value : value * k + out[i - 1] * (1 - k)));
+  return out;
+}
+
+export function macd(values: number[], { fast, slow, signal } = MACD_PERIODS) {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const dif = values.map((_, i) => fastEma[i] - slowEma[i]);
+  const dea = ema(dif, signal);
+  // The slow EMA needs a full period before the lines mean anything
+  return dif.map((d, i) =>
+    i < slow - 1 ? { dif: null, dea: null, hist: null } : { dif: d, dea: dea[i], hist: 2 * (d - dea[i]) }
+  );
+}
+
+export function rsi(values: number[], period = RSI_PERIOD): (number | null)[] {
+  let avgGain = 0;
+  let avgLoss = 0;
+  return values.map((value, i) => {
+    if (i === 0) return null;
+    const change = value - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) return null;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  });
+}
+
+/** Mean close of each consecutive 大运 run, repeated on every year of that run. */
+export function daYunAverage(points: KLinePoint[]): (number | null)[] {
+  const out: (number | null)[] = [];
+  let start = 0;
+  for (let i = 1; i <= points.length; i++) {
+    if (i < points.length && points[i].daYun === points[start].daYun) continue;
+    const run = points.slice(start, i);
+    const mean = run.reduce((sum, p) => sum + p.close, 0) / run.length;
+    run.forEach(() => out.push(points[start].daYun ? mean : null));
+    start = i;
+  }
+  return out;
+}
+
+/** Points sorted by age with every indicator attached (rounded to 2 decimals). */
+export function withIndicators(points: KLinePoint[]): IndicatorPoint[] {
+  const sorted = [...points].sort((a, b) => a.age - b.age);
+  const closes = sorted.map((p) => p.close);
+  const ma5 = movingAverage(closes, 5);
+  const ma10 = movingAverage(closes, 10);
+  const ma20 = movingAverage(closes, 20);
+  const boll = bollinger(closes);
+  const decade = daYunAverage(sorted);
+  const macdValues = macd(closes);
+  const rsiValues = rsi(closes);
+
+  return sorted.map((p, i) => ({
+    ...p,
+    ma5: round2(ma5[i]),
+    ma10: round2(ma10[i]),
+    ma20: round2(ma20[i]),
+    bollUpper: round2(boll[i].upper),
+    bollMid: round2(boll[i].mid),
+    bollLower: round2(boll[i].lower),
+    daYunAvg: round2(decade[i]),
+    macdDif: round2(macdValues[i].dif),
+    macdDea: round2(macdValues[i].dea),
+    macdHist: round2(macdValues[i].hist),
+    rsi: round2(rsiValues[i]),
+  }));
+}
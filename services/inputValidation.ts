@@ -0,0 +1,121 @@
+import { UserInput } from "../types";
+import { firstMonthStemIndex, ziHourStemIndex } from "./baziCalendar";
+import { EARTHLY_BRANCHES, HEAVENLY_STEMS, cycleIndexOf, ganZhiFromCycleIndex, shiftGanZhi } from "./ganZhi";
+import { isDaYunForward } from "./daYun";
+
+/**
+ * 表单输入校验：
+ * - 格式：四柱与第一步大运必须属于六十甲子（error，必须修正）
+ * - 一致性：年柱对出生年（允许立春前后）、月干合五虎遁、时干合五鼠遁、
+ *   第一步大运与月柱按大运方向相邻（warning，可由用户确认后忽略）
+ */
+
+export type InputField =
+  | 'birthYear'
+  | 'yearPillar'
+  | 'monthPillar'
+  | 'dayPillar'
+  | 'hourPillar'
+  | 'startAge'
+  | 'firstDaYun';
+
+export interface InputIssue {
+  field: InputField;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const PILLAR_FIELDS: { field: InputField; label: string }[] = [
+  { field: 'yearPillar', label: '年柱' },
+  { field: 'monthPillar', label: '月柱' },
+  { field: 'dayPillar', label: '日柱' },
+  { field: 'hourPillar', label: '时柱' },
+  { field: 'firstDaYun', label: '第一步大运' },
+];
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+export function validateUserInput(input: UserInput): InputIssue[] {
+  const issues: InputIssue[] = [];
+
+  // Format: every pillar must be one of the 六十甲子
+  const valid: Partial<Record<InputField, boolean>> = {};
+  for (const { field, label } of PILLAR_FIELDS) {
+    const value = ((input[field] as string) || '').trim();
+    valid[field] = cycleIndexOf(value) !== -1;
+    if (value && !valid[field]) {
+      issues.push({ field, severity: 'error', message: `${label}「${value}」不在六十甲子中（应为如"甲子"的两字干支）` });
+    }
+  }
+
+  const birthYear = parseInt(input.birthYear);
+  if (input.birthYear && (!Number.isInteger(birthYear) || birthYear < 1900 || birthYear > 2100)) {
+    issues.push({ field: 'birthYear', severity: 'error', message: '出生年份需在 1900-2100 之间' });
+  }
+  const startAge = parseInt(input.startAge);
+  if (input.startAge && (!Number.isInteger(startAge) || startAge < 1 || startAge > 100)) {
+    issues.push({ field: 'startAge', severity: 'error', message: '起运年龄需为 1-100 的整数（虚岁）' });
+  }
+
+  const yearPillar = input.yearPillar.trim();
+  const monthPillar = input.monthPillar.trim();
+  const dayPillar = input.dayPillar.trim();
+  const hourPillar = input.hourPillar.trim();
+
+  // Year pillar vs birth year; births before 立春 still carry the previous year's pillar
+  if (valid.yearPillar && Number.isInteger(birthYear) && birthYear >= 1900 && birthYear <= 2100) {
+    const sameYear = ganZhiFromCycleIndex(birthYear - 1984);
+    const previousYear = ganZhiFromCycleIndex(birthYear - 1985);
+    if (yearPillar !== sameYear && yearPillar !== previousYear) {
+      issues.push({
+        field: 'yearPillar',
+        severity: 'warning',
+        message: `${birthYear} 年的年柱应为 ${sameYear}（立春前出生则为 ${previousYear}）`,
+      });
+    }
+  }
+
+  // 五虎遁: month stem from year stem
+  if (valid.yearPillar && valid.monthPillar) {
+    const yearStem = HEAVENLY_STEMS.indexOf(yearPillar.charAt(0));
+    const monthBranch = EARTHLY_BRANCHES.indexOf(monthPillar.charAt(1));
+    const expected = HEAVENLY_STEMS[mod(firstMonthStemIndex(yearStem) + mod(monthBranch - 2, 12), 10)];
+    if (monthPillar.charAt(0) !== expected) {
+      issues.push({
+        field: 'monthPillar',
+        severity: 'warning',
+        message: `按五虎遁，${yearPillar.charAt(0)}年${monthPillar.charAt(1)}月的月干应为 ${expected}（即 ${expected}${monthPillar.charAt(1)}）`,
+      });
+    }
+  }
+
+  // 五鼠遁: hour stem from day stem; a 子 hour may also take the next day's stem (夜子时)
+  if (valid.dayPillar && valid.hourPillar) {
+    const dayStem = HEAVENLY_STEMS.indexOf(dayPillar.charAt(0));
+    const hourBranch = EARTHLY_BRANCHES.indexOf(hourPillar.charAt(1));
+    const expected = HEAVENLY_STEMS[mod(ziHourStemIndex(dayStem) + hourBranch, 10)];
+    const lateZi = hourBranch === 0 ? HEAVENLY_STEMS[mod(ziHourStemIndex(dayStem + 1), 10)] : null;
+    if (hourPillar.charAt(0) !== expected && hourPillar.charAt(0) !== lateZi) {
+      issues.push({
+        field: 'hourPillar',
+        severity: 'warning',
+        message: `按五鼠遁，${dayPillar.charAt(0)}日${hourPillar.charAt(1)}时的时干应为 ${expected}（即 ${expected}${hourPillar.charAt(1)}）`,
+      });
+    }
+  }
+
+  // First 大运 must be the month pillar stepped once in the 大运 direction
+  if (valid.yearPillar && valid.monthPillar && valid.firstDaYun) {
+    const forward = isDaYunForward(yearPillar, input.gender);
+    const expected = shiftGanZhi(monthPillar, forward ? 1 : -1);
+    if (input.firstDaYun.trim() !== expected) {
+      issues.push({
+        field: 'firstDaYun',
+        severity: 'warning',
+        message: `大运${forward ? '顺行' : '逆行'}，月柱 ${monthPillar} 的第一步大运应为 ${expected}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { createJsonArrayItemParser } from "./jsonStream";
+
+const collect = (chunks: string[], key = "chartPoints") => {
+  const items: any[] = [];
+  const parser = createJsonArrayItemParser(key, (item) => items.push(item));
+  chunks.forEach((chunk) => parser.push(chunk));
+  return items;
+};
+
+// Splits text into pieces of the given size
+const chunked = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+const output = JSON.stringify({
+  analysis: { summary: "{ not an item }" },
+  chartPoints: [
+    { age: 1, reason: "括号 } 与 { 在字符串里" },
+    { age: 2, reason: "转义的引号 \" 和反斜杠 \\", nested: { score: 5 } },
+    { age: 3, reason: "末项" },
+  ],
+  tail: [{ age: 99 }],
+});
+
+describe("createJsonArrayItemParser", () => {
+  it("emits each item once the whole output has arrived", () => {
+    expect(collect([output]).map((p) => p.age)).toEqual([1, 2, 3]);
+  });
+
+  it.each([1, 2, 7, 64])("emits the same items when split into %i-character chunks", (size) => {
+    expect(collect(chunked(output, size))).toEqual(JSON.parse(output).chartPoints);
+  });
+
+  it("emits an item as soon as it closes", () => {
+    const items: any[] = [];
+    const parser = createJsonArrayItemParser("chartPoints", (item) => items.push(item));
+    parser.push('{"chartPoints": [{"age": 1, "rea');
+    expect(items).toEqual([]);
+    parser.push('son": "x"}, {"age"');
+    expect(items).toEqual([{ age: 1, reason: "x" }]);
+  });
+
+  it("waits for the key when it is split across chunks", () => {
+    expect(collect(['{"chart', 'Points"', ": [", '{"age": 4}]}'])).toEqual([{ age: 4 }]);
+  });
+
+  it("tolerates trailing commas and skips malformed items", () => {
+    expect(collect(['{"chartPoints": [{"age": 1,}, {"age": oops}, {"age": 3}]}'])).toEqual([{ age: 1 }, { age: 3 }]);
+  });
+
+  it("ignores everything after the array closes", () => {
+    expect(collect(['{"chartPoints": []}', ', {"age": 1}'])).toEqual([]);
+  });
+});
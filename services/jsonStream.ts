@@ -0,0 +1,72 @@
+/**
+ * 流式 JSON 增量解析：模型输出按片段到达时，找到指定键（如 "chartPoints"）下的数组，
+ * 每当数组中的一个对象闭合，立即解析并回调，不必等整段输出结束。
+ * 解析失败的对象直接跳过，完整输出仍由流结束后的校验兜底。
+ */
+
+export interface JsonArrayItemParser {
+  push: (text: string) => void;
+}
+
+export function createJsonArrayItemParser(arrayKey: string, onItem: (item: any) => void): JsonArrayItemParser {
+  let buffer = '';
+  let pos = 0;            // next character to scan
+  let inArray = false;
+  let depth = 0;          // object depth inside the array
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  let done = false;
+
+  const findArrayStart = (): boolean => {
+    const keyIndex = buffer.indexOf(`"${arrayKey}"`);
+    if (keyIndex === -1) return false;
+    const bracket = buffer.indexOf('[', keyIndex);
+    if (bracket === -1) return false;
+    pos = bracket + 1;
+    return true;
+  };
+
+  return {
+    push(text: string) {
+      if (done) return;
+      buffer += text;
+      if (!inArray) {
+        inArray = findArrayStart();
+        if (!inArray) return;
+      }
+
+      for (; pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{') {
+          if (depth === 0) itemStart = pos;
+          depth++;
+        } else if (ch === '}') {
+          depth--;
+          if (depth === 0 && itemStart !== -1) {
+            const raw = buffer.slice(itemStart, pos + 1);
+            itemStart = -1;
+            try {
+              onItem(JSON.parse(raw.replace(/,\s*([}\]])/g, '$1')));
+            } catch (_e) {
+              // malformed item: leave it to the final validation pass
+            }
+          }
+        } else if (ch === ']' && depth === 0) {
+          // array closed; ignore anything after it
+          done = true;
+          buffer = '';
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,351 @@
+import { ModelRequestError, parseRetryAfterMs } from "./retryPolicy";
+import { throwIfAborted } from "./cancellation";
+
+/**
+ * 模型服务商适配层：
+ * - 每个 provider 负责自己的请求格式、鉴权头、JSON 输出选项与流式/非流式响应的文本抽取
+ * - 对上层只暴露 complete(config, request) → 完整文本与结束原因（流式时逐段回调 onDelta）
+ * - JSON 解析、规范化与校验仍由 geminiService.ts 统一处理，与 provider 无关
+ */
+
+export type ProviderId = 'openai' | 'gemini' | 'anthropic' | 'openai-compatible';
+
+export interface ModelConfig {
+  provider: ProviderId;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  temperature?: number; // 未设置时由调用方决定（分析默认 0）
+  maxTokens?: number;
+}
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  complete: (config: ModelConfig, request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+export interface CompletionResult {
+  text: string;
+  stopReason?: string;
+  truncated: boolean; // 因达到最大输出 token 而截断
+}
+
+// 各家表示"达到 max tokens"的结束原因：OpenAI length，Anthropic max_tokens，Gemini MAX_TOKENS
+const TRUNCATION_REASONS = new Set(['length', 'max_tokens', 'MAX_TOKENS']);
+
+/**
+ * How to read one provider's responses: text out of a stream event or a
+ * plain JSON body (servers that ignore the streaming flag), and the stop
+ * reason out of either.
+ */
+interface ResponseShape {
+  delta: (event: any, eventName: string) => string | undefined;
+  text: (json: any) => string | undefined;
+  stopReason: (eventOrJson: any) => string | undefined;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Read a server-sent event stream and hand each `data:` payload (with its
+ * `event:` name, if any) to `onData`.
+ */
+async function readSseStream(res: Response, onData: (data: string, event: string) => void): Promise<void> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  let event = '';
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      event = '';
+    } else if (trimmed.startsWith('event:')) {
+      event = trimmed.slice(6).trim();
+    } else if (trimmed.startsWith('data:')) {
+      const payload = trimmed.slice(5).trim();
+      if (payload && payload !== '[DONE]') onData(payload, event);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(pending + decoder.decode());
+}
+
+/** Shared request/response plumbing for all providers. */
+async function postAndCollect(
+  url: string,
+  headers: Record<string, string>,
+  body: object,
+  request: CompletionRequest,
+  shape: ResponseShape
+): Promise<CompletionResult> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+  } catch (e: any) {
+    // An abort is not a network failure and must not be retried
+    throwIfAborted(request.signal);
+    throw new ModelRequestError(`网络请求失败: ${e?.message || e}`);
+  }
+
+  if (!res.ok) {
+    const errText = await res.text();
+    const retryAfter = parseRetryAfterMs(res.headers.get('retry-after'));
+    throw new ModelRequestError(`API 请求失败: ${res.status} - ${errText}`, res.status, retryAfter ?? undefined);
+  }
+
+  let content = '';
+  let stopReason: string | undefined;
+  const isStream = (res.headers.get('content-type') || '').includes('text/event-stream') && res.body;
+  if (isStream) {
+    try {
+      await readSseStream(res, (data, eventName) => {
+        let delta: string | undefined;
+        try {
+          const event = JSON.parse(data);
+          delta = shape.delta(event, eventName);
+          stopReason = shape.stopReason(event) || stopReason;
+        } catch (_e) {
+          // keep-alive comments or partial vendor events
+        }
+        if (typeof delta === 'string' && delta) {
+          content += delta;
+          request.onDelta?.(delta);
+        }
+      });
+    } catch (e: any) {
+      throwIfAborted(request.signal);
+      throw new ModelRequestError(`流式响应中断: ${e?.message || e}`);
+    }
+  } else {
+    const json = await res.json();
+    content = shape.text(json) || '';
+    stopReason = shape.stopReason(json);
+    if (content) request.onDelta?.(content);
+  }
+
+  if (!content) {
+    throw new ModelRequestError(`模型未返回任何内容${stopReason ? `（结束原因：${stopReason}）` : ''}。`);
+  }
+  return { text: content, stopReason, truncated: !!stopReason && TRUNCATION_REASONS.has(stopReason) };
+}
+
+const openAiShape: ResponseShape = {
+  delta: (event) => event.choices?.[0]?.delta?.content,
+  text: (json) => json.choices?.[0]?.message?.content,
+  stopReason: (event) => event.choices?.[0]?.finish_reason || undefined,
+};
+
+const openAiMessages = (request: CompletionRequest) => [
+  { role: 'system', content: request.system },
+  { role: 'user', content: request.user },
+];
+
+const openai: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-5',
+  requiresApiKey: true,
+  complete: (config, request) =>
+    postAndCollect(
+      `${trimSlash(config.baseUrl)}/chat/completions`,
+      { Authorization: `Bearer ${config.apiKey}` },
+      {
+        model: config.model,
+        messages: openAiMessages(request),
+        temperature: request.temperature,
+        max_completion_tokens: request.maxTokens,
+        response_format: { type: 'json_object' },
+        stream: true,
+      },
+      request,
+      openAiShape
+    ),
+};
+
+// Ollama / llama.cpp / vLLM 等：沿用 chat/completions，但 JSON 模式与 max_completion_tokens 支持不一，取最保守的参数
+const openAiCompatible: LlmProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI 兼容 (Ollama / llama.cpp 等)',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  defaultModel: 'qwen2.5:14b',
+  requiresApiKey: false,
+  complete: (config, request) =>
+    postAndCollect(
+      `${trimSlash(config.baseUrl)}/chat/completions`,
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      {
+        model: config.model,
+        messages: openAiMessages(request),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      },
+      request,
+      openAiShape
+    ),
+};
+
+const geminiText = (json: any): string | undefined =>
+  json.candidates?.[0]?.content?.parts?.map((p: any) => p.text || '').join('');
+
+// The non-streaming endpoint may answer with an array of partial responses
+const geminiShape: ResponseShape = {
+  delta: geminiText,
+  text: (json) => (Array.isArray(json) ? json.map(geminiText).join('') : geminiText(json)),
+  stopReason: (json) => {
+    const last = Array.isArray(json) ? json[json.length - 1] : json;
+    return last?.candidates?.[0]?.finishReason;
+  },
+};
+
+const gemini: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultModel: 'gemini-2.5-pro',
+  requiresApiKey: true,
+  complete: (config, request) =>
+    postAndCollect(
+      `${trimSlash(config.baseUrl)}/models/${encodeURIComponent(config.model)}:streamGenerateContent?alt=sse`,
+      { 'x-goog-api-key': config.apiKey },
+      {
+        systemInstruction: { parts: [{ text: request.system }] },
+        contents: [{ role: 'user', parts: [{ text: request.user }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          responseMimeType: 'application/json',
+        },
+      },
+      request,
+      geminiShape
+    ),
+};
+
+const anthropicShape: ResponseShape = {
+  delta: (event, eventName) =>
+    (eventName === 'content_block_delta' || event.type === 'content_block_delta') && event.delta?.type === 'text_delta'
+      ? event.delta.text
+      : undefined,
+  text: (json) => json.content?.filter((b: any) => b.type === 'text').map((b: any) => b.text).join(''),
+  // streamed in message_delta, or top-level on a plain response
+  stopReason: (event) => event.delta?.stop_reason || event.stop_reason || undefined,
+};
+
+// Anthropic Messages API 没有 JSON 模式，依赖 prompt 中的包裹标记与共享的容错解析
+const anthropic: LlmProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-sonnet-4-5',
+  requiresApiKey: true,
+  complete: (config, request) =>
+    postAndCollect(
+      `${trimSlash(config.baseUrl)}/messages`,
+      {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // 浏览器直连（本地开发或用户自带密钥）时必需
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      {
+        model: config.model,
+        system: request.system,
+        messages: [{ role: 'user', content: request.user }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      },
+      request,
+      anthropicShape
+    ),
+};
+
+export const LLM_PROVIDERS: Record<ProviderId, LlmProvider> = {
+  openai,
+  gemini,
+  anthropic,
+  'openai-compatible': openAiCompatible,
+};
+
+export function getProvider(id: ProviderId): LlmProvider {
+  return LLM_PROVIDERS[id];
+}
+
+/** Accepts a few common aliases ("ollama", "claude", …); returns null for unknown names. */
+export function parseProviderId(value?: string | null): ProviderId | null {
+  const normalized = (value || '').trim().toLowerCase();
+  if (!normalized) return 'openai';
+  if (normalized in LLM_PROVIDERS) return normalized as ProviderId;
+  const aliases: Record<string, ProviderId> = {
+    google: 'gemini',
+    claude: 'anthropic',
+    ollama: 'openai-compatible',
+    'llama.cpp': 'openai-compatible',
+    llamacpp: 'openai-compatible',
+    compatible: 'openai-compatible',
+    local: 'openai-compatible',
+  };
+  return aliases[normalized] || null;
+}
+
+/** Fill in the provider's default base URL and model for any field left empty. */
+export function createModelConfig(
+  providerName: string | undefined,
+  overrides: { apiKey?: string; baseUrl?: string; model?: string }
+): ModelConfig {
+  const provider = parseProviderId(providerName);
+  if (!provider) {
+    throw new Error(`不支持的模型服务商「${providerName}」，可选：${Object.keys(LLM_PROVIDERS).join(' / ')}`);
+  }
+  const { defaultBaseUrl, defaultModel } = LLM_PROVIDERS[provider];
+  return {
+    provider,
+    apiKey: overrides.apiKey || '',
+    baseUrl: overrides.baseUrl || defaultBaseUrl,
+    model: overrides.model || defaultModel,
+  };
+}
+
+/**
+ * Cheap round trip to check the key, base URL and model name. The prompt
+ * mentions JSON because some providers reject JSON mode otherwise.
+ */
+export async function testModelConnection(config: ModelConfig): Promise<{ latencyMs: number; reply: string }> {
+  const started = Date.now();
+  const { text: reply } = await getProvider(config.provider).complete(config, {
+    system: 'You are a connectivity check.',
+    user: 'Reply with exactly this JSON: {"ok": true}',
+    temperature: 0,
+    maxTokens: 256,
+  });
+  return { latencyMs: Date.now() - started, reply: reply.trim().slice(0, 200) };
+}
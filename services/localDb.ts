@@ -0,0 +1,60 @@
+/**
+ * 本机 IndexedDB（库名 lifeKLine）：
+ * - results：推演结果缓存（resultCache.ts）
+ * - charts：已保存的命盘库（chartLibrary.ts）
+ * IndexedDB 不可用（隐私模式等）时 withStore 返回 fallback，调用方按"无数据"处理
+ */
+
+const DB_NAME = "lifeKLine";
+const DB_VERSION = 2;
+
+export type StoreName = "results" | "charts";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Each step creates what the previous version lacked
+        if (event.oldVersion < 1) {
+          db.createObjectStore("results", { keyPath: "key" }).createIndex("lastUsedAt", "lastUsedAt");
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore("charts", { keyPath: "id" }).createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[localDb] IndexedDB 不可用：", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+  fallback: T
+): Promise<T> {
+  const db = await openDb();
+  if (!db) return fallback;
+  try {
+    return await run(db.transaction(name, mode).objectStore(name));
+  } catch (e) {
+    console.warn(`[localDb] 读写 ${name} 失败：`, e);
+    return fallback;
+  }
+}
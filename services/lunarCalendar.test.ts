@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatLunarDate, formatLunarDay, getLeapMonth, getLunarMonthDays, lunarToSolar } from "./lunarCalendar";
+
+const solar = (year: number, month: number, day: number, isLeap = false) => {
+  const date = lunarToSolar({ year, month, day, isLeap });
+  return date && `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+};
+
+describe("lunarToSolar", () => {
+  it.each([
+    [1990, 4, 21, "1990-05-15"],
+    [2024, 1, 1, "2024-02-10"],
+    [2023, 3, 1, "2023-04-20"],
+  ])("converts %i-%i-%i to %s", (year, month, day, expected) => {
+    expect(solar(year, month, day)).toBe(expected);
+  });
+
+  it("places a leap month after the regular month of the same number", () => {
+    expect(getLeapMonth(2023)).toBe(2);
+    expect(solar(2023, 2, 1)).toBe("2023-02-20");
+    expect(solar(2023, 2, 1, true)).toBe("2023-03-22");
+    expect(getLeapMonth(2020)).toBe(4);
+    expect(solar(2020, 4, 1, true)).toBe("2020-05-23");
+  });
+
+  it("covers both edges of the table", () => {
+    expect(solar(1900, 1, 1)).toBe("1900-01-31");
+    expect(solar(1900, 12, getLunarMonthDays(1900, 12))).toBe("1901-02-18");
+    expect(solar(1901, 1, 1)).toBe("1901-02-19");
+    expect(solar(2100, 1, 1)).toBe("2100-02-09");
+    // The last lunar months of 2100 fall in solar 2101
+    expect(solar(2100, 12, getLunarMonthDays(2100, 12))).toBe("2101-01-28");
+  });
+
+  it("returns null for dates that do not exist", () => {
+    expect(solar(1899, 12, 1)).toBeNull();
+    expect(solar(2101, 1, 1)).toBeNull();
+    expect(solar(2024, 13, 1)).toBeNull();
+    expect(solar(2024, 2, 1, true)).toBeNull();
+    const shortMonth = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].find((m) => getLunarMonthDays(2024, m) === 29)!;
+    expect(solar(2024, shortMonth, 30)).toBeNull();
+    expect(solar(2024, 1, 0)).toBeNull();
+  });
+});
+
+describe("formatLunarDate", () => {
+  it("writes days and months the traditional way", () => {
+    expect([1, 10, 11, 20, 21, 30].map(formatLunarDay)).toEqual(["初一", "初十", "十一", "二十", "廿一", "三十"]);
+    expect(formatLunarDate({ year: 2023, month: 2, day: 3, isLeap: true })).toBe("2023年闰二月初三");
+    expect(formatLunarDate({ year: 2024, month: 12, day: 29, isLeap: false })).toBe("2024年腊月廿九");
+  });
+});
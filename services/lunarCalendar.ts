@@ -0,0 +1,102 @@
+import { gregorianFromJulianDay, julianDayFromGregorian } from "./solarTerms";
+
+/**
+ * 农历（阴历）换算，离线查表，覆盖农历 1900–2100 年。
+ * LUNAR_INFO 每年一项，按位编码：
+ * - bit 0-3：闰月月份（0 表示无闰月）
+ * - bit 4-15：正月至十二月的大小月，bit 15 对应正月，1 = 大月 30 天，0 = 小月 29 天
+ * - bit 16：闰月大小（1 = 30 天）
+ * 农历 1900 年正月初一 = 公历 1900-01-31。
+ */
+
+export interface LunarDate {
+  year: number;
+  month: number;    // 1-12
+  day: number;      // 1-30
+  isLeap: boolean;  // 是否闰月
+}
+
+export const LUNAR_MIN_YEAR = 1900;
+export const LUNAR_MAX_YEAR = 2100;
+
+const LUNAR_INFO = [
+  0x04bd8, 0x04ae0, 0x0a570, 0x054d5, 0x0d260, 0x0d950, 0x16554, 0x056a0, 0x09ad0, 0x055d2, // 1900-1909
+  0x04ae0, 0x0a5b6, 0x0a4d0, 0x0d250, 0x1d255, 0x0b540, 0x0d6a0, 0x0ada2, 0x095b0, 0x14977, // 1910-1919
+  0x04970, 0x0a4b0, 0x0b4b5, 0x06a50, 0x06d40, 0x1ab54, 0x02b60, 0x09570, 0x052f2, 0x04970, // 1920-1929
+  0x06566, 0x0d4a0, 0x0ea50, 0x16a95, 0x05ad0, 0x02b60, 0x186e3, 0x092e0, 0x1c8d7, 0x0c950, // 1930-1939
+  0x0d4a0, 0x1d8a6, 0x0b550, 0x056a0, 0x1a5b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0b557, // 1940-1949
+  0x06ca0, 0x0b550, 0x15355, 0x04da0, 0x0a5b0, 0x14573, 0x052b0, 0x0a9a8, 0x0e950, 0x06aa0, // 1950-1959
+  0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05260, 0x0f263, 0x0d950, 0x05b57, 0x056a0, // 1960-1969
+  0x096d0, 0x04dd5, 0x04ad0, 0x0a4d0, 0x0d4d4, 0x0d250, 0x0d558, 0x0b540, 0x0b6a0, 0x195a6, // 1970-1979
+  0x095b0, 0x049b0, 0x0a974, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x0af46, 0x0ab60, 0x09570, // 1980-1989
+  0x04af5, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06b58, 0x05ac0, 0x0ab60, 0x096d5, 0x092e0, // 1990-1999
+  0x0c960, 0x0d954, 0x0d4a0, 0x0da50, 0x07552, 0x056a0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5, // 2000-2009
+  0x0a950, 0x0b4a0, 0x0baa4, 0x0ad50, 0x055d9, 0x04ba0, 0x0a5b0, 0x15176, 0x052b0, 0x0a930, // 2010-2019
+  0x07954, 0x06aa0, 0x0ad50, 0x05b52, 0x04b60, 0x0a6e6, 0x0a4e0, 0x0d260, 0x0ea65, 0x0d530, // 2020-2029
+  0x05aa0, 0x076a3, 0x096d0, 0x04afb, 0x04ad0, 0x0a4d0, 0x1d0b6, 0x0d250, 0x0d520, 0x0dd45, // 2030-2039
+  0x0b5a0, 0x056d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0aa50, 0x1b255, 0x06d20, 0x0ada0, // 2040-2049
+  0x14b63, 0x09370, 0x049f8, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1a6c4, 0x0aae0, // 2050-2059
+  0x092e0, 0x0d2e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0a6d0, 0x055d4, // 2060-2069
+  0x052d0, 0x0a9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0, // 2070-2079
+  0x0b273, 0x06930, 0x07337, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054e4, 0x0d160, // 2080-2089
+  0x0e968, 0x0d520, 0x0daa0, 0x16aa6, 0x056d0, 0x04ae0, 0x0a9d4, 0x0a2d0, 0x0d150, 0x0f252, // 2090-2099
+  0x0d520 // 2100
+];
+
+const LUNAR_EPOCH_JD = julianDayFromGregorian(1900, 1, 31);
+
+export const LUNAR_MONTH_NAMES = ['正', '二', '三', '四', '五', '六', '七', '八', '九', '十', '冬', '腊'];
+const DAY_TENS = ['初', '十', '廿', '三'];
+const DAY_UNITS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+const infoOf = (year: number) => LUNAR_INFO[year - LUNAR_MIN_YEAR];
+
+/** Leap month of a lunar year, 0 when there is none. */
+export const getLeapMonth = (year: number): number => infoOf(year) & 0xf;
+
+/** Days in a lunar month (29 or 30); `isLeap` asks for the leap month following `month`. */
+export const getLunarMonthDays = (year: number, month: number, isLeap = false): number => {
+  if (isLeap) return infoOf(year) & 0x10000 ? 30 : 29;
+  return infoOf(year) & (0x10000 >> month) ? 30 : 29;
+};
+
+const getLunarYearDays = (year: number): number => {
+  let days = 0;
+  for (let m = 1; m <= 12; m++) days += getLunarMonthDays(year, m);
+  if (getLeapMonth(year)) days += getLunarMonthDays(year, getLeapMonth(year), true);
+  return days;
+};
+
+/** Convert a lunar date to the Gregorian calendar; returns null for dates that do not exist. */
+export function lunarToSolar(date: LunarDate): { year: number; month: number; day: number } | null {
+  const { year, month, day, isLeap } = date;
+  if (year < LUNAR_MIN_YEAR || year > LUNAR_MAX_YEAR) return null;
+  if (month < 1 || month > 12) return null;
+  if (isLeap && getLeapMonth(year) !== month) return null;
+  if (day < 1 || day > getLunarMonthDays(year, month, isLeap)) return null;
+
+  let offset = 0;
+  for (let y = LUNAR_MIN_YEAR; y < year; y++) offset += getLunarYearDays(y);
+  const leap = getLeapMonth(year);
+  for (let m = 1; m < month; m++) {
+    offset += getLunarMonthDays(year, m);
+    if (m === leap) offset += getLunarMonthDays(year, m, true);
+  }
+  // The leap month follows the regular month of the same number
+  if (isLeap) offset += getLunarMonthDays(year, month);
+  offset += day - 1;
+
+  const { year: y, month: m, day: d } = gregorianFromJulianDay(LUNAR_EPOCH_JD + offset);
+  return { year: y, month: m, day: d };
+}
+
+/** 初一 … 三十 */
+export function formatLunarDay(day: number): string {
+  const tens = day === 10 ? '初' : day === 20 ? '二' : day === 30 ? '三' : DAY_TENS[Math.floor(day / 10)];
+  return tens + DAY_UNITS[(day - 1) % 10];
+}
+
+/** e.g. `1990年闰五月初三` */
+export function formatLunarDate(date: LunarDate): string {
+  return `${date.year}年${date.isLeap ? '闰' : ''}${LUNAR_MONTH_NAMES[date.month - 1]}月${formatLunarDay(date.day)}`;
+}
@@ -0,0 +1,55 @@
+import { ProviderId, parseProviderId } from "./llmProviders";
+import { TIMEOUT_MINUTES_RANGE } from "./cancellation";
+
+/**
+ * 用户在设置面板中填写的模型配置，只保存在本机 localStorage。
+ * 空字符串 / undefined 表示"沿用环境变量或服务商默认值"。
+ */
+
+export interface ModelSettings {
+  provider: ProviderId;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMinutes?: number; // 整次推演的总超时
+}
+
+const STORAGE_KEY = "lifeKLine.modelSettings";
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_TOKENS_RANGE = { min: 256, max: 32000 };
+
+const inRange = (value: unknown, range: { min: number; max: number }): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && value >= range.min && value <= range.max ? value : undefined;
+
+export function loadModelSettings(): ModelSettings | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    const provider = parseProviderId(data?.provider);
+    if (!provider) return null;
+    return {
+      provider,
+      apiKey: typeof data.apiKey === "string" ? data.apiKey : "",
+      baseUrl: typeof data.baseUrl === "string" ? data.baseUrl : "",
+      model: typeof data.model === "string" ? data.model : "",
+      temperature: inRange(data.temperature, TEMPERATURE_RANGE),
+      maxTokens: inRange(data.maxTokens, MAX_TOKENS_RANGE),
+      timeoutMinutes: inRange(data.timeoutMinutes, TIMEOUT_MINUTES_RANGE),
+    };
+  } catch (_e) {
+    // storage unavailable (private mode) or corrupted
+    return null;
+  }
+}
+
+export function saveModelSettings(settings: ModelSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function clearModelSettings(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Gender, LifeDestinyResult, UserInput } from "../types";
+import { buildReportFile, parseReportFile } from "./reportFile";
+import { validateLifeDestinyResult } from "./resultSchema";
+
+const input: UserInput = {
+  name: "张三",
+  gender: Gender.MALE,
+  birthYear: "1990",
+  yearPillar: "庚午",
+  monthPillar: "辛巳",
+  dayPillar: "庚辰",
+  hourPillar: "辛巳",
+  startAge: "3",
+  firstDaYun: "壬午",
+};
+
+const analysis = {
+  bazi: ["庚午", "辛巳", "庚辰", "辛巳"],
+  summary: "总评", summaryScore: 7,
+  industry: "事业", industryScore: 6,
+  wealth: "财运", wealthScore: 5,
+  marriage: "婚姻", marriageScore: 6,
+  health: "健康", healthScore: 7,
+  family: "六亲", familyScore: 6,
+};
+
+// A chunk accepted as partial: one year kept its empty reason
+const partialResult = (): LifeDestinyResult => {
+  const chartData = [1, 2, 3].map((age) => ({
+    age, year: 1989 + age, ganZhi: ["庚午", "辛未", "壬申"][age - 1], daYun: "童限",
+    open: 50, close: 55, high: 60, low: 45, score: 55, reason: age === 2 ? "" : "平稳",
+  }));
+  const result = { chartData, analysis };
+  return { ...result, validationIssues: validateLifeDestinyResult(result) };
+};
+
+const roundTrip = (result: LifeDestinyResult) =>
+  parseReportFile(JSON.stringify(buildReportFile(input, result, "openai/gpt-4o")));
+
+describe("parseReportFile", () => {
+  it("re-imports an exported partial result with its recorded issues", () => {
+    const result = partialResult();
+    expect(result.validationIssues).toContainEqual({ path: "chartData[1].reason", message: "expected non-empty string", severity: "error" });
+
+    const file = roundTrip(result);
+    expect(file.input).toEqual(input);
+    expect(file.result.chartData).toEqual(result.chartData);
+    expect(file.result.validationIssues).toEqual(result.validationIssues);
+  });
+
+  it("still rejects errors the result did not record", () => {
+    const result = partialResult();
+    result.chartData[0].reason = "";
+    expect(() => roundTrip(result)).toThrow("chartData[0].reason");
+  });
+
+  it("rejects a partial result whose issues were stripped", () => {
+    expect(() => roundTrip({ ...partialResult(), validationIssues: undefined })).toThrow("chartData[1].reason");
+  });
+
+  it("migrates a bare result without an envelope", () => {
+    const { validationIssues, ...bare } = partialResult();
+    bare.chartData[1].reason = "平稳";
+    const file = parseReportFile(JSON.stringify(bare));
+    expect(file.input).toBeNull();
+    expect(file.modelId).toBe("unknown");
+  });
+
+  it("refuses files from a newer version", () => {
+    expect(() => parseReportFile(JSON.stringify({ format: "life-kline-report", version: 99 }))).toThrow("版本 99");
+  });
+});
@@ -0,0 +1,125 @@
+import { Gender, LifeDestinyResult, SchemaIssue, UserInput } from "../types";
+import { PROMPT_VERSION } from "../constants";
+import { formatSchemaIssue, unrecordedErrors, validateLifeDestinyResult } from "./resultSchema";
+import { downloadBlob, sanitizeFileName } from "./download";
+
+/**
+ * 报告文件（JSON）导出与导入：
+ * - 文件带 format 标记与 version；结构变化时递增 REPORT_FILE_VERSION，并在 MIGRATIONS 中加入上一版本到新版本的转换
+ * - 导入时先逐版迁移到当前版本，再校验排盘输入与结果（resultSchema.ts），只有 error 级问题才拒绝导入；
+ *   结果自带的 validationIssues 中已记录的问题（保留下来的不完整结果）不算，导入后照常显示
+ * - 导入后直接渲染，不调用模型
+ */
+
+export const REPORT_FILE_FORMAT = "life-kline-report";
+export const REPORT_FILE_VERSION = 1;
+
+export interface ReportFile {
+  format: typeof REPORT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;        // ISO 时间
+  modelId: string;           // "provider/model"
+  promptVersion: number;
+  input: UserInput | null;   // 旧文件可能没有排盘输入
+  result: LifeDestinyResult;
+}
+
+/**
+ * Version N → N + 1 upgrades, applied in order. Version 0 is an unversioned
+ * file holding a bare LifeDestinyResult (e.g. copied out of an API response).
+ */
+const MIGRATIONS: Record<number, (file: any) => any> = {
+  0: (bare) => ({
+    format: REPORT_FILE_FORMAT,
+    version: 1,
+    exportedAt: "",
+    modelId: "unknown",
+    promptVersion: 0,
+    input: null,
+    result: bare,
+  }),
+};
+
+export function buildReportFile(input: UserInput | null, result: LifeDestinyResult, modelId: string): ReportFile {
+  return {
+    format: REPORT_FILE_FORMAT,
+    version: REPORT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    modelId,
+    promptVersion: PROMPT_VERSION,
+    input,
+    result,
+  };
+}
+
+export function reportFileName(file: ReportFile): string {
+  const name = file.input?.name?.trim() || file.result.analysis?.bazi?.join("") || "report";
+  return `人生K线-${sanitizeFileName(name)}-${file.exportedAt.slice(0, 10)}.json`;
+}
+
+export function downloadReportFile(file: ReportFile): void {
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }), reportFileName(file));
+}
+
+/** Shape check for a stored or shared UserInput; null (no input) passes. */
+export function validateStoredUserInput(input: any, path = "input"): SchemaIssue[] {
+  if (input === null) return [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ path, message: "expected object or null", severity: "error" }];
+  }
+  const issues: SchemaIssue[] = [];
+  if (input.gender !== Gender.MALE && input.gender !== Gender.FEMALE) {
+    issues.push({ path: `${path}.gender`, message: `expected "${Gender.MALE}" or "${Gender.FEMALE}", got ${JSON.stringify(input.gender)}`, severity: "error" });
+  }
+  for (const key of ["birthYear", "yearPillar", "monthPillar", "dayPillar", "hourPillar", "startAge", "firstDaYun"]) {
+    if (typeof input[key] !== "string") {
+      issues.push({ path: `${path}.${key}`, message: `expected string, got ${JSON.stringify(input[key])}`, severity: "error" });
+    }
+  }
+  return issues;
+}
+
+const versionOf = (data: any): number => {
+  if (data && typeof data === "object" && data.format === REPORT_FILE_FORMAT) return data.version;
+  // No envelope: accept a bare result
+  return data && typeof data === "object" && "chartData" in data ? 0 : NaN;
+};
+
+/** Parses, migrates and validates an exported report. Throws with a readable message on failure. */
+export function parseReportFile(text: string): ReportFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`文件不是有效的 JSON：${e.message}`);
+  }
+
+  let version = versionOf(data);
+  if (!Number.isInteger(version)) {
+    throw new Error("无法识别的文件：不是人生K线导出的报告。");
+  }
+  if (version > REPORT_FILE_VERSION) {
+    throw new Error(`报告文件版本 ${version} 比当前程序支持的版本 ${REPORT_FILE_VERSION} 更新，请升级后再导入。`);
+  }
+  while (version < REPORT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`不支持的报告文件版本 ${version}。`);
+    data = migrate(data);
+    version = data.version;
+  }
+
+  const errors = unrecordedErrors(
+    [...validateStoredUserInput(data.input), ...validateLifeDestinyResult(data.result)],
+    data.result?.validationIssues
+  );
+  if (errors.length > 0) {
+    const summary = errors.slice(0, 5).map(formatSchemaIssue).join("；") + (errors.length > 5 ? ` 等 ${errors.length} 处` : "");
+    throw new Error(`报告文件内容不完整：${summary}`);
+  }
+  return {
+    ...data,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    modelId: typeof data.modelId === "string" ? data.modelId : "unknown",
+    promptVersion: Number(data.promptVersion) || 0,
+  } as ReportFile;
+}
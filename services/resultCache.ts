@@ -0,0 +1,122 @@
+import { LifeDestinyResult, UserInput } from "../types";
+import { PROMPT_VERSION } from "../constants";
+import { promisify, withStore } from "./localDb";
+
+/**
+ * 推演结果缓存（IndexedDB，仅本机）：
+ * - 键 = 规范化排盘输入 + 模型 + 提示词版本的哈希；同一八字、同一模型再次推演时直接复用
+ * - 只保留决定生成结果的字段（性别、出生年、四柱、起运、连续模式），姓名与出生地等展示字段不影响命中
+ * - 按条数与总大小设上限，超出时淘汰最久未使用的条目；设置面板可一键清空
+ * - IndexedDB 不可用（隐私模式等）时所有操作静默降级为"无缓存"
+ */
+
+export const RESULT_CACHE_LIMITS = {
+  maxEntries: 50,
+  maxBytes: 20 * 1024 * 1024,
+};
+
+export interface CachedResult {
+  key: string;
+  modelId: string;
+  promptVersion: number;
+  result: LifeDestinyResult;
+  createdAt: string;  // ISO 时间
+  lastUsedAt: number; // 用于 LRU 淘汰
+  size: number;       // JSON 字节数（近似）
+}
+
+export interface ResultCacheStats {
+  count: number;
+  bytes: number;
+}
+
+/** The fields that decide what the model is asked; everything else is presentation. */
+export function normalizeCacheInput(input: UserInput) {
+  const trim = (value?: string) => (value || "").replace(/\s+/g, "");
+  return {
+    gender: input.gender,
+    birthYear: trim(input.birthYear),
+    pillars: [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar].map(trim),
+    startAge: Number(trim(input.startAge)),
+    firstDaYun: trim(input.firstDaYun).replace(/大运$/, ""),
+    continuousKLine: !!input.continuousKLine,
+  };
+}
+
+// FNV-1a，仅在 crypto.subtle 不可用（非安全上下文）时使用
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export async function cacheKeyFor(input: UserInput, modelId: string): Promise<string> {
+  const text = JSON.stringify({ input: normalizeCacheInput(input), modelId, promptVersion: PROMPT_VERSION });
+  if (!globalThis.crypto?.subtle) return `fnv-${fnv1a(text)}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const withResults = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>, fallback: T) =>
+  withStore("results", mode, run, fallback);
+
+/** Looks up a result and marks it as recently used. */
+export function getCachedResult(key: string): Promise<CachedResult | null> {
+  return withResults("readwrite", async (store) => {
+    const entry = (await promisify(store.get(key))) as CachedResult | undefined;
+    if (!entry) return null;
+    entry.lastUsedAt = Date.now();
+    store.put(entry);
+    return entry;
+  }, null);
+}
+
+export async function putCachedResult(key: string, modelId: string, result: LifeDestinyResult): Promise<void> {
+  const size = new Blob([JSON.stringify(result)]).size;
+  if (size > RESULT_CACHE_LIMITS.maxBytes) return;
+  const now = Date.now();
+  const entry: CachedResult = {
+    key,
+    modelId,
+    promptVersion: PROMPT_VERSION,
+    result,
+    createdAt: new Date(now).toISOString(),
+    lastUsedAt: now,
+    size,
+  };
+  await withResults("readwrite", (store) => promisify(store.put(entry)), undefined);
+  await evictOverflow();
+}
+
+// 从最久未使用的条目开始删除，直到条数与总大小都回到上限以内
+async function evictOverflow(): Promise<void> {
+  await withResults("readwrite", async (store) => {
+    const entries = (await promisify(store.index("lastUsedAt").getAll())) as CachedResult[];
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+    let count = entries.length;
+    for (const entry of entries) {
+      if (count <= RESULT_CACHE_LIMITS.maxEntries && bytes <= RESULT_CACHE_LIMITS.maxBytes) break;
+      store.delete(entry.key);
+      count--;
+      bytes -= entry.size;
+    }
+  }, undefined);
+}
+
+export function deleteCachedResult(key: string): Promise<void> {
+  return withResults("readwrite", (store) => promisify(store.delete(key)), undefined);
+}
+
+export function clearResultCache(): Promise<void> {
+  return withResults("readwrite", (store) => promisify(store.clear()), undefined);
+}
+
+export function getResultCacheStats(): Promise<ResultCacheStats> {
+  return withResults("readonly", async (store) => {
+    const entries = (await promisify(store.getAll())) as CachedResult[];
+    return { count: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+  }, { count: 0, bytes: 0 });
+}
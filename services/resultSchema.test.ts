@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { SchemaIssue } from "../types";
+import {
+  formatSchemaIssue,
+  schemaErrors,
+  unrecordedErrors,
+  validateAnalysisData,
+  validateChartData,
+  validateKLinePoint,
+  validateLifeDestinyResult,
+} from "./resultSchema";
+
+const point = (age: number, patch: Record<string, unknown> = {}) => ({
+  age, year: 1989 + age, ganZhi: ["庚午", "辛未", "壬申", "癸酉"][age - 1], daYun: "童限",
+  open: 50, close: 55, high: 60, low: 45, score: 55, reason: "平稳", ...patch,
+});
+
+const analysis = {
+  bazi: ["庚午", "辛巳", "庚辰", "辛巳"],
+  summary: "总评", summaryScore: 7,
+  industry: "事业", industryScore: 6,
+  wealth: "财运", wealthScore: 5,
+  marriage: "婚姻", marriageScore: 6,
+  health: "健康", healthScore: 7,
+  family: "六亲", familyScore: 6,
+};
+
+const issueAt = (issues: SchemaIssue[], path: string) => issues.filter((i) => i.path === path);
+
+describe("validateKLinePoint", () => {
+  it("accepts a well-formed point", () => {
+    expect(validateKLinePoint(point(1), "chartData[0]", { birthYear: 1990 })).toEqual([]);
+  });
+
+  it("addresses each issue by path", () => {
+    const issues = validateKLinePoint(point(1, { high: 52, reason: " " }), "chartData[7]");
+    expect(issues.map(formatSchemaIssue)).toEqual([
+      "chartData[7].high: expected number ≥ max(open, close)",
+      "chartData[7].reason: expected non-empty string",
+    ]);
+    expect(issueAt(issues, "chartData[7].reason")[0].severity).toBe("error");
+  });
+
+  it("treats missing numbers as errors and out-of-range numbers as warnings", () => {
+    const issues = validateKLinePoint(point(1, { open: "50", close: 120, high: 120 }), "p");
+    expect(issueAt(issues, "p.open")).toEqual([{ path: "p.open", message: 'expected number in 0–100, got "50"', severity: "error" }]);
+    expect(issueAt(issues, "p.close")[0].severity).toBe("warning");
+  });
+
+  it("warns about year and 干支 that disagree with the birth year", () => {
+    const issues = validateKLinePoint(point(2, { year: 1995 }), "p", { birthYear: 1990 });
+    expect(issueAt(issues, "p.year")[0].message).toBe("expected 1991 (birth year + age − 1), got 1995");
+    expect(issueAt(issues, "p.ganZhi")[0]).toMatchObject({ message: "expected 乙亥 for year 1995, got 辛未", severity: "warning" });
+  });
+
+  it("flags ages outside the requested range as warnings", () => {
+    const issues = validateKLinePoint(point(4), "p", { ageRange: { from: 1, to: 3 } });
+    expect(issues).toEqual([{ path: "p.age", message: "expected age in requested range 1–3, got 4", severity: "warning" }]);
+  });
+});
+
+describe("validateChartData", () => {
+  it("reports duplicate ages with the first index", () => {
+    const issues = validateChartData([point(1), point(2), point(2)], "chartData");
+    expect(issueAt(issues, "chartData[2].age")[0].message).toBe("expected unique age, 2 already at chartData[1]");
+  });
+
+  it("reports missing ages of the requested range as one error", () => {
+    const issues = validateChartData([point(1), point(3)], "chartData", { ageRange: { from: 1, to: 4 } });
+    expect(issueAt(issues, "chartData")).toEqual([
+      { path: "chartData", message: "expected a point for every age 1–4, missing 2, 4", severity: "error" },
+    ]);
+  });
+
+  it("rejects non-arrays and empty arrays", () => {
+    expect(validateChartData({}, "chartData")[0].message).toBe("expected array");
+    expect(validateChartData([], "chartData")[0].message).toBe("expected non-empty array");
+  });
+});
+
+describe("validateAnalysisData", () => {
+  it("checks every pillar and section", () => {
+    const issues = validateAnalysisData({ ...analysis, bazi: ["庚午", "辛巳", "庚X", "辛巳"], wealth: "", healthScore: 11 });
+    expect(issues.map((i) => i.path)).toEqual(["analysis.bazi[2]", "analysis.wealth", "analysis.healthScore"]);
+    expect(schemaErrors(issues)).toHaveLength(3);
+  });
+});
+
+describe("validateLifeDestinyResult", () => {
+  it("combines chart and analysis issues", () => {
+    const issues = validateLifeDestinyResult({ chartData: [point(1, { reason: "" })], analysis: { ...analysis, bazi: [] } });
+    expect(schemaErrors(issues).map((i) => i.path)).toEqual(["chartData[0].reason", "analysis.bazi"]);
+  });
+
+  it("rejects a non-object", () => {
+    expect(validateLifeDestinyResult(null)).toEqual([{ path: "$", message: "expected object", severity: "error" }]);
+  });
+});
+
+describe("unrecordedErrors", () => {
+  const issues = validateLifeDestinyResult({ chartData: [point(1, { reason: "" }), point(2, { reason: "" })], analysis });
+
+  it("drops errors already recorded on the result", () => {
+    expect(unrecordedErrors(issues, [issues[0]]).map((i) => i.path)).toEqual(["chartData[1].reason"]);
+  });
+
+  it("ignores malformed recorded issues", () => {
+    expect(unrecordedErrors(issues, "chartData[0].reason")).toHaveLength(2);
+    expect(unrecordedErrors(issues, [null, { path: 1 }])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,187 @@
+import { SchemaIssue } from "../types";
+import { cycleIndexOf, ganZhiFromCycleIndex } from "./ganZhi";
+import { CHILDHOOD_DA_YUN, TIMELINE_MAX_AGE } from "./timeline";
+
+/**
+ * LifeDestinyResult / AnalysisData / KLinePoint 的运行时校验：
+ * - 每个问题带路径（如 chartData[37].high）与期望描述（如 expected number ≥ low）
+ * - error：结构或类型错误，本地无法补救，需要模型修正（驱动修正请求与重试）
+ * - warning：本地流程会自动处理的偏差（OHLC 超界或影线颠倒由 chartIntegrity 修复，
+ *   年份/干支/大运由本地时间线覆盖，超出请求范围的年龄会被剔除）
+ */
+
+export const ANALYSIS_SECTIONS = ['summary', 'industry', 'wealth', 'marriage', 'health', 'family'] as const;
+
+export interface ChartSchemaOptions {
+  birthYear?: number;                    // 用于校验 year = birthYear + age - 1
+  ageRange?: { from: number; to: number }; // 要求覆盖的年龄段（含两端）
+}
+
+export const formatSchemaIssue = (issue: SchemaIssue): string => `${issue.path}: ${issue.message}`;
+
+export const schemaErrors = (issues: SchemaIssue[]): SchemaIssue[] => issues.filter((i) => i.severity === 'error');
+
+/**
+ * Errors not already listed in a result's own validationIssues. Partial results
+ * are kept with their remaining problems recorded there, so an exported file or
+ * share link made from one must not be rejected for those same problems.
+ */
+export function unrecordedErrors(issues: SchemaIssue[], recorded: unknown): SchemaIssue[] {
+  const known = new Set(
+    (Array.isArray(recorded) ? recorded : [])
+      .filter((i) => i && typeof i.path === 'string' && typeof i.message === 'string')
+      .map(formatSchemaIssue)
+  );
+  return schemaErrors(issues).filter((i) => !known.has(formatSchemaIssue(i)));
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isGanZhi = (value: unknown): boolean => typeof value === 'string' && cycleIndexOf(value.trim()) !== -1;
+
+function checkRange(
+  issues: SchemaIssue[],
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+  outOfRange: SchemaIssue['severity']
+): value is number {
+  if (!isNumber(value)) {
+    issues.push({ path, message: `expected number in ${min}–${max}, got ${JSON.stringify(value)}`, severity: 'error' });
+    return false;
+  }
+  if (value < min || value > max) {
+    issues.push({ path, message: `expected number in ${min}–${max}, got ${value}`, severity: outOfRange });
+  }
+  return true;
+}
+
+export function validateKLinePoint(point: any, path: string, options: ChartSchemaOptions = {}): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (!point || typeof point !== 'object' || Array.isArray(point)) {
+    return [{ path, message: 'expected object', severity: 'error' }];
+  }
+
+  const { age, year } = point;
+  if (!Number.isInteger(age) || age < 1 || age > TIMELINE_MAX_AGE) {
+    issues.push({ path: `${path}.age`, message: `expected integer in 1–${TIMELINE_MAX_AGE}, got ${JSON.stringify(age)}`, severity: 'error' });
+  } else if (options.ageRange && (age < options.ageRange.from || age > options.ageRange.to)) {
+    issues.push({
+      path: `${path}.age`,
+      message: `expected age in requested range ${options.ageRange.from}–${options.ageRange.to}, got ${age}`,
+      severity: 'warning',
+    });
+  }
+
+  if (!Number.isInteger(year)) {
+    issues.push({ path: `${path}.year`, message: `expected integer year, got ${JSON.stringify(year)}`, severity: 'warning' });
+  } else {
+    if (options.birthYear !== undefined && Number.isInteger(age) && year !== options.birthYear + age - 1) {
+      issues.push({ path: `${path}.year`, message: `expected ${options.birthYear + age - 1} (birth year + age − 1), got ${year}`, severity: 'warning' });
+    }
+    if (isGanZhi(point.ganZhi) && point.ganZhi.trim() !== ganZhiFromCycleIndex(year - 1984)) {
+      issues.push({ path: `${path}.ganZhi`, message: `expected ${ganZhiFromCycleIndex(year - 1984)} for year ${year}, got ${point.ganZhi}`, severity: 'warning' });
+    }
+  }
+
+  if (!isGanZhi(point.ganZhi)) {
+    issues.push({ path: `${path}.ganZhi`, message: `expected 干支 of the 60-甲子 cycle, got ${JSON.stringify(point.ganZhi)}`, severity: 'warning' });
+  }
+  if (point.daYun !== undefined) {
+    const daYun = typeof point.daYun === 'string' ? point.daYun.replace(/大运$/, '').trim() : point.daYun;
+    if (daYun !== CHILDHOOD_DA_YUN && !isGanZhi(daYun)) {
+      issues.push({ path: `${path}.daYun`, message: `expected 干支 or ${CHILDHOOD_DA_YUN}, got ${JSON.stringify(point.daYun)}`, severity: 'warning' });
+    }
+  }
+
+  const okOpen = checkRange(issues, point.open, `${path}.open`, 0, 100, 'warning');
+  const okClose = checkRange(issues, point.close, `${path}.close`, 0, 100, 'warning');
+  const okHigh = checkRange(issues, point.high, `${path}.high`, 0, 100, 'warning');
+  const okLow = checkRange(issues, point.low, `${path}.low`, 0, 100, 'warning');
+  checkRange(issues, point.score, `${path}.score`, 0, 100, 'warning');
+  if (okOpen && okClose && okHigh && point.high < Math.max(point.open, point.close)) {
+    issues.push({ path: `${path}.high`, message: 'expected number ≥ max(open, close)', severity: 'warning' });
+  }
+  if (okOpen && okClose && okLow && point.low > Math.min(point.open, point.close)) {
+    issues.push({ path: `${path}.low`, message: 'expected number ≤ min(open, close)', severity: 'warning' });
+  }
+  if (okHigh && okLow && point.high < point.low) {
+    issues.push({ path: `${path}.high`, message: 'expected number ≥ low', severity: 'warning' });
+  }
+
+  if (!isNonEmptyString(point.reason)) {
+    issues.push({ path: `${path}.reason`, message: 'expected non-empty string', severity: 'error' });
+  }
+  return issues;
+}
+
+/** Validates every point plus age coverage and uniqueness. */
+export function validateChartData(chart: any, path: string, options: ChartSchemaOptions = {}): SchemaIssue[] {
+  if (!Array.isArray(chart)) {
+    return [{ path, message: 'expected array', severity: 'error' }];
+  }
+  if (chart.length === 0) {
+    return [{ path, message: 'expected non-empty array', severity: 'error' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  const seen = new Map<number, number>();
+  chart.forEach((point, i) => {
+    issues.push(...validateKLinePoint(point, `${path}[${i}]`, options));
+    const age = point?.age;
+    if (Number.isInteger(age)) {
+      if (seen.has(age)) {
+        issues.push({ path: `${path}[${i}].age`, message: `expected unique age, ${age} already at ${path}[${seen.get(age)}]`, severity: 'warning' });
+      } else {
+        seen.set(age, i);
+      }
+    }
+  });
+
+  if (options.ageRange) {
+    const missing: number[] = [];
+    for (let age = options.ageRange.from; age <= options.ageRange.to; age++) {
+      if (!seen.has(age)) missing.push(age);
+    }
+    if (missing.length > 0) {
+      issues.push({ path, message: `expected a point for every age ${options.ageRange.from}–${options.ageRange.to}, missing ${missing.join(', ')}`, severity: 'error' });
+    }
+  }
+  return issues;
+}
+
+export function validateAnalysisData(analysis: any, path = 'analysis'): SchemaIssue[] {
+  if (!analysis || typeof analysis !== 'object' || Array.isArray(analysis)) {
+    return [{ path, message: 'expected object', severity: 'error' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (!Array.isArray(analysis.bazi) || analysis.bazi.length !== 4) {
+    issues.push({ path: `${path}.bazi`, message: 'expected array of 4 pillars [year, month, day, hour]', severity: 'error' });
+  } else {
+    analysis.bazi.forEach((pillar: unknown, i: number) => {
+      if (!isGanZhi(pillar)) {
+        issues.push({ path: `${path}.bazi[${i}]`, message: `expected 干支 of the 60-甲子 cycle, got ${JSON.stringify(pillar)}`, severity: 'error' });
+      }
+    });
+  }
+
+  for (const section of ANALYSIS_SECTIONS) {
+    if (!isNonEmptyString(analysis[section])) {
+      issues.push({ path: `${path}.${section}`, message: 'expected non-empty string', severity: 'error' });
+    }
+    checkRange(issues, analysis[`${section}Score`], `${path}.${section}Score`, 0, 10, 'error');
+  }
+  return issues;
+}
+
+export function validateLifeDestinyResult(result: any, options: ChartSchemaOptions = {}): SchemaIssue[] {
+  if (!result || typeof result !== 'object') {
+    return [{ path: '$', message: 'expected object', severity: 'error' }];
+  }
+  return [
+    ...validateChartData(result.chartData, 'chartData', options),
+    ...validateAnalysisData(result.analysis, 'analysis'),
+  ];
+}
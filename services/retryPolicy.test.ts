@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ModelRequestError,
+  RETRY_POLICY,
+  backoffDelayMs,
+  isRetryableTransportError,
+  parseRetryAfterMs,
+  sleep,
+} from "./retryPolicy";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("parseRetryAfterMs", () => {
+  const now = Date.parse("2024-05-01T12:00:00Z");
+
+  it("reads delta-seconds", () => {
+    expect(parseRetryAfterMs("7", now)).toBe(7000);
+    expect(parseRetryAfterMs(" 1.5 ", now)).toBe(1500);
+  });
+
+  it("reads an HTTP date relative to now", () => {
+    expect(parseRetryAfterMs("Wed, 01 May 2024 12:00:30 GMT", now)).toBe(30000);
+  });
+
+  it("never returns a negative delay", () => {
+    expect(parseRetryAfterMs("-5", now)).toBe(0);
+    expect(parseRetryAfterMs("Wed, 01 May 2024 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("returns null when absent or unparseable", () => {
+    expect(parseRetryAfterMs(null, now)).toBeNull();
+    expect(parseRetryAfterMs("", now)).toBeNull();
+    expect(parseRetryAfterMs("soon", now)).toBeNull();
+  });
+});
+
+describe("backoffDelayMs", () => {
+  it("stays within the jittered half-to-full ceiling of each attempt", () => {
+    for (const [attempt, ceiling] of [[1, 1000], [2, 2000], [3, 4000], [6, 30000], [10, 30000]]) {
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      expect(backoffDelayMs(attempt)).toBe(ceiling / 2);
+      vi.spyOn(Math, "random").mockReturnValue(0.999999);
+      expect(backoffDelayMs(attempt)).toBe(ceiling);
+    }
+  });
+
+  it("uses Retry-After when given, capped at the maximum delay", () => {
+    expect(backoffDelayMs(1, 5000)).toBe(5000);
+    expect(backoffDelayMs(1, 0)).toBe(0);
+    expect(backoffDelayMs(1, 120000)).toBe(RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("isRetryableTransportError", () => {
+  it("retries network errors, 408, 429 and 5xx only", () => {
+    expect(isRetryableTransportError(new ModelRequestError("network"))).toBe(true);
+    for (const status of [408, 429, 500, 503]) {
+      expect(isRetryableTransportError(new ModelRequestError("x", status))).toBe(true);
+    }
+    for (const status of [400, 401, 403, 404]) {
+      expect(isRetryableTransportError(new ModelRequestError("x", status))).toBe(false);
+    }
+    expect(isRetryableTransportError(new Error("x"))).toBe(false);
+  });
+});
+
+describe("sleep", () => {
+  it("resolves after the delay", async () => {
+    vi.useFakeTimers();
+    const done = vi.fn();
+    sleep(1000).then(done);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const pending = sleep(60000, controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(pending).rejects.toThrow("stop");
+    await expect(sleep(10, controller.signal)).rejects.toThrow("stop");
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 重试策略：
+ * - 传输层错误（429 / 5xx / 网络中断 / 空响应）：指数退避 + 随机抖动，服务端给出 Retry-After 时以其为准
+ * - 内容错误（JSON 无法解析或未通过校验）：不退避，由调用方发送"修正"请求
+ * - 每个请求（报告或某段K线）总尝试次数有上限
+ */
+
+export const RETRY_POLICY = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Transport-level failure of a model request. `status` is absent for network
+ * errors and empty responses.
+ */
+export class ModelRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ModelRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export function isRetryableTransportError(err: unknown): err is ModelRequestError {
+  if (!(err instanceof ModelRequestError)) return false;
+  return err.status === undefined || err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+/** `Retry-After` is either delta-seconds or an HTTP date; returns null when absent or unparseable. */
+export function parseRetryAfterMs(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Full-jitter exponential backoff for the given 1-based attempt, unless the server told us how long to wait. */
+export function backoffDelayMs(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, RETRY_POLICY.maxDelayMs);
+  const ceiling = Math.min(RETRY_POLICY.maxDelayMs, RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` fires. */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Gender, LifeDestinyResult, UserInput } from "../types";
+import { buildShareUrl, parseShareFragment } from "./shareLink";
+import { validateLifeDestinyResult } from "./resultSchema";
+
+const input: UserInput = {
+  name: "张三",
+  gender: Gender.FEMALE,
+  birthYear: "1990",
+  yearPillar: "庚午",
+  monthPillar: "辛巳",
+  dayPillar: "庚辰",
+  hourPillar: "辛巳",
+  startAge: "3",
+  firstDaYun: "庚辰",
+  birthDate: "1990-05-15",
+  birthTime: "10:30",
+};
+
+const analysis = {
+  bazi: ["庚午", "辛巳", "庚辰", "辛巳"],
+  summary: "张三日主庚金，金水相生", summaryScore: 7,
+  industry: "事业", industryScore: 6,
+  wealth: "财运", wealthScore: 5,
+  marriage: "婚姻", marriageScore: 6,
+  health: "健康", healthScore: 7,
+  family: "六亲", familyScore: 6,
+};
+
+// A chunk accepted as partial: one year kept its empty reason
+const partialResult = (): LifeDestinyResult => {
+  const chartData = [1, 2, 3].map((age) => ({
+    age, year: 1989 + age, ganZhi: ["庚午", "辛未", "壬申"][age - 1], daYun: "童限",
+    open: 50, close: 55, high: 60, low: 45, score: 55, reason: age === 2 ? "" : "平稳",
+  }));
+  const result = { chartData, analysis };
+  return { ...result, validationIssues: validateLifeDestinyResult(result) };
+};
+
+const share = async (chart: { input: UserInput; result: LifeDestinyResult }, includePersonal = false) => {
+  const url = await buildShareUrl({ ...chart, modelId: "openai/gpt-4o" }, { includeResult: true, includePersonal });
+  return parseShareFragment(new URL(url).hash);
+};
+
+beforeEach(() => {
+  vi.stubGlobal("window", { location: { href: "https://example.com/app/" } });
+});
+
+describe("share links", () => {
+  it("reopens a link made from a partial result", async () => {
+    const result = partialResult();
+    const shared = await share({ input, result }, true);
+    expect(shared?.input).toEqual(input);
+    expect(shared?.result?.chartData).toEqual(result.chartData);
+    expect(shared?.result?.validationIssues).toEqual(result.validationIssues);
+  });
+
+  it("rejects errors the result did not record", async () => {
+    const result = partialResult();
+    result.chartData[0].reason = "";
+    await expect(share({ input, result })).rejects.toThrow("chartData[0].reason");
+  });
+
+  it("drops personal fields and redacts the name by default", async () => {
+    const shared = await share({ input, result: partialResult() });
+    expect(shared?.input.name).toBeUndefined();
+    expect(shared?.input.birthDate).toBeUndefined();
+    expect(shared?.input.dayPillar).toBe("庚辰");
+    expect(shared?.result?.analysis.summary).toBe("命主日主庚金，金水相生");
+  });
+
+  it("leaves the analysis alone for a one-character name", async () => {
+    const shared = await share({ input: { ...input, name: "金" }, result: partialResult() });
+    expect(shared?.input.name).toBeUndefined();
+    expect(shared?.result?.analysis.summary).toBe(analysis.summary);
+  });
+
+  it("returns null for a fragment that is not a share link", async () => {
+    await expect(parseShareFragment("#section")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { LifeDestinyResult, UserInput } from "../types";
+import { formatSchemaIssue, unrecordedErrors, validateLifeDestinyResult } from "./resultSchema";
+import { validateStoredUserInput } from "./reportFile";
+
+/**
+ * 分享链接（无需服务器）：
+ * - 排盘输入（可选附带推演结果）序列化为 JSON，用 deflate-raw 压缩后 base64url 编码，放在 URL 片段 #share=… 中
+ * - 片段不会发送到服务器；浏览器不支持 CompressionStream 时退回未压缩编码
+ * - 默认去掉姓名与出生日期、时间、地点等个人信息，结果文本中的姓名替换为「命主」；用户勾选后才保留
+ *   （单字姓名不替换：金、水、木这类字在分析文本里随处可见）
+ */
+
+export const SHARE_FRAGMENT_KEY = "share";
+export const SHARE_LINK_VERSION = 1;
+
+// 不影响排盘与推演的个人信息（四柱、起运与大运已足够重新生成）
+export const PERSONAL_FIELDS: (keyof UserInput)[] = ["name", "birthDate", "birthTime", "birthPlace", "birthLongitude"];
+
+export interface SharedChart {
+  input: UserInput;
+  result: LifeDestinyResult | null; // 只分享了排盘输入时为 null
+  modelId: string;
+}
+
+export interface ShareOptions {
+  includeResult: boolean;
+  includePersonal: boolean;
+}
+
+// Shorter names are ordinary words (金, 水 …) in the analysis text
+const MIN_REDACTED_NAME_CHARS = 2;
+
+type Encoding = "z" | "j"; // z = deflate-raw, j = 未压缩 JSON
+
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes.buffer as ArrayBuffer]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so large results don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// The prompt includes the name, so the model may have repeated it in the text
+function redactName(result: LifeDestinyResult, name: string): LifeDestinyResult {
+  // Reviver only sees values, so object keys are never touched
+  return JSON.parse(JSON.stringify(result), (_key, value) =>
+    typeof value === "string" ? value.split(name).join("命主") : value
+  );
+}
+
+export function shareableInput(input: UserInput, includePersonal: boolean): UserInput {
+  if (includePersonal) return input;
+  const copy = { ...input };
+  PERSONAL_FIELDS.forEach((key) => delete copy[key]);
+  return copy;
+}
+
+export async function buildShareUrl(chart: SharedChart, options: ShareOptions): Promise<string> {
+  const name = chart.input.name?.trim();
+  let result = options.includeResult ? chart.result : null;
+  if (result && name && Array.from(name).length >= MIN_REDACTED_NAME_CHARS && !options.includePersonal) {
+    result = redactName(result, name);
+  }
+
+  const payload = { input: shareableInput(chart.input, options.includePersonal), result, modelId: chart.modelId };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const encoding: Encoding = canCompress() ? "z" : "j";
+  const bytes = encoding === "z" ? await pipeBytes(json, new CompressionStream("deflate-raw")) : json;
+
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_FRAGMENT_KEY}=${SHARE_LINK_VERSION}.${encoding}.${toBase64Url(bytes)}`;
+  return url.toString();
+}
+
+const shareValue = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_FRAGMENT_KEY);
+
+export const hasShareFragment = (hash: string) => shareValue(hash) !== null;
+
+/**
+ * Decodes a #share=… fragment. Returns null when the fragment is not a share
+ * link; throws with a readable message when it is one but cannot be used.
+ */
+export async function parseShareFragment(hash: string): Promise<SharedChart | null> {
+  const value = shareValue(hash);
+  if (value === null) return null;
+
+  const [version, encoding, data] = value.split(".");
+  if (Number(version) !== SHARE_LINK_VERSION || (encoding !== "z" && encoding !== "j") || !data) {
+    throw new Error("无法识别的分享链接，可能来自更新版本的程序或已被截断。");
+  }
+
+  let payload: any;
+  try {
+    let bytes = fromBase64Url(data);
+    if (encoding === "z") {
+      if (!canCompress()) throw new Error("当前浏览器不支持解压分享数据");
+      bytes = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e: any) {
+    throw new Error(`分享链接已损坏（可能复制不完整）：${e.message}`);
+  }
+
+  const issues = [
+    ...(payload?.input ? validateStoredUserInput(payload.input) : [{ path: "input", message: "missing", severity: "error" as const }]),
+    ...(payload?.result ? validateLifeDestinyResult(payload.result) : []),
+  ];
+  const errors = unrecordedErrors(issues, payload?.result?.validationIssues);
+  if (errors.length > 0) {
+    throw new Error(`分享链接内容不完整：${errors.slice(0, 5).map(formatSchemaIssue).join("；")}`);
+  }
+  return {
+    input: payload.input,
+    result: payload.result || null,
+    modelId: typeof payload.modelId === "string" ? payload.modelId : "unknown",
+  };
+}
+
+/** Drops the fragment without adding a history entry. */
+export function clearShareFragment(): void {
+  if (!hasShareFragment(window.location.hash)) return;
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { JIE_NAMES, getJieOfYear, getLiChun, julianDayFromBeijingTime } from "./solarTerms";
+
+// 公布的交节时刻（北京时间，紫金山天文台 / 香港天文台）
+const JIE_2024: [string, string][] = [
+  ["小寒", "2024-01-06 04:49"],
+  ["立春", "2024-02-04 16:27"],
+  ["惊蛰", "2024-03-05 10:23"],
+  ["清明", "2024-04-04 15:02"],
+  ["立夏", "2024-05-05 08:10"],
+  ["芒种", "2024-06-05 12:10"],
+  ["小暑", "2024-07-06 22:20"],
+  ["立秋", "2024-08-07 08:09"],
+  ["白露", "2024-09-07 11:11"],
+  ["寒露", "2024-10-08 03:00"],
+  ["立冬", "2024-11-07 06:20"],
+  ["大雪", "2024-12-06 23:17"],
+];
+
+const LI_CHUN: [number, string][] = [
+  [1990, "1990-02-04 10:14"],
+  [2000, "2000-02-04 20:40"],
+  [2023, "2023-02-04 10:42"],
+  [2025, "2025-02-03 22:10"],
+];
+
+const jdOf = (text: string) => {
+  const [y, mo, d, h, mi] = text.split(/[- :]/).map(Number);
+  return julianDayFromBeijingTime(y, mo, d, h, mi);
+};
+
+// Published times are truncated to the minute
+const minutesAfter = (jd: number, text: string) => (jd - jdOf(text)) * 1440;
+
+describe("getJieOfYear", () => {
+  it("lists the twelve 节 in order", () => {
+    expect(getJieOfYear(2024).map((j) => j.name)).toEqual(JIE_NAMES);
+  });
+
+  it.each(JIE_2024)("puts 2024 %s within a minute of %s", (name, published) => {
+    const jie = getJieOfYear(2024).find((j) => j.name === name)!;
+    const offset = minutesAfter(jie.jd, published);
+    expect(offset).toBeGreaterThanOrEqual(-0.5);
+    expect(offset).toBeLessThan(1.5);
+  });
+});
+
+describe("getLiChun", () => {
+  it.each(LI_CHUN)("puts %i 立春 within a minute of %s", (year, published) => {
+    const offset = minutesAfter(getLiChun(year), published);
+    expect(offset).toBeGreaterThanOrEqual(-0.5);
+    expect(offset).toBeLessThan(1.5);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * 节气计算（离线）：
+ * - 太阳视黄经：截断的 VSOP87 地球日心黄经（Meeus《Astronomical Algorithms》附录 III），
+ *   加 FK5 修正、章动与光行差；误差约 1″，交节时刻误差在半分钟以内
+ * - ΔT 使用 Espenak & Meeus 分段多项式（1800–2150）
+ * - 用牛顿迭代求太阳视黄经到达目标角度的时刻
+ * - 八字只关心 12 个"节"（立春、惊蛰……小寒），"中气"不参与换月
+ *
+ * 所有儒略日 (JD) 均为世界时 (UT)；北京时间 = UT + 8h。
+ */
+
+export const BEIJING_UTC_OFFSET_HOURS = 8;
+
+// 12 节，按公历年内出现顺序排列；index 0 的小寒对应太阳黄经 285°，之后每个节 +30°
+export const JIE_NAMES = ['小寒', '立春', '惊蛰', '清明', '立夏', '芒种', '小暑', '立秋', '白露', '寒露', '立冬', '大雪'];
+
+export interface JieQiMoment {
+  name: string;
+  jd: number;        // 交节时刻 (UT 儒略日)
+  jieIndex: number;  // 在 JIE_NAMES 中的位置
+}
+
+const DEG = Math.PI / 180;
+const TROPICAL_YEAR = 365.2422;
+
+const normalizeDegrees = (d: number) => ((d % 360) + 360) % 360;
+
+/** Gregorian calendar date (day may carry a fraction) to Julian Day. */
+export function julianDayFromGregorian(year: number, month: number, day: number): number {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+}
+
+/** Julian Day back to Gregorian calendar fields. */
+export function gregorianFromJulianDay(jd: number): { year: number; month: number; day: number; hour: number; minute: number } {
+  const z = Math.floor(jd + 0.5);
+  const f = jd + 0.5 - z;
+  const alpha = Math.floor((z - 1867216.25) / 36524.25);
+  const a = z + 1 + alpha - Math.floor(alpha / 4);
+  const b = a + 1524;
+  const c = Math.floor((b - 122.1) / 365.25);
+  const d = Math.floor(365.25 * c);
+  const e = Math.floor((b - d) / 30.6001);
+
+  let day = b - d - Math.floor(30.6001 * e);
+  let month = e < 14 ? e - 1 : e - 13;
+  let year = month > 2 ? c - 4716 : c - 4715;
+
+  let totalMinutes = Math.round(f * 1440);
+  if (totalMinutes === 1440) {
+    // rounding pushed us to the next midnight
+    const next = gregorianFromJulianDay(z + 0.5);
+    year = next.year;
+    month = next.month;
+    day = next.day;
+    totalMinutes = 0;
+  }
+  return { year, month, day, hour: Math.floor(totalMinutes / 60), minute: totalMinutes % 60 };
+}
+
+/** Julian Day (UT) of a Beijing local clock time. */
+export function julianDayFromBeijingTime(year: number, month: number, day: number, hour: number, minute: number): number {
+  return julianDayFromGregorian(year, month, day + (hour - BEIJING_UTC_OFFSET_HOURS + minute / 60) / 24);
+}
+
+/** Beijing local clock fields of a Julian Day (UT). */
+export function beijingTimeFromJulianDay(jd: number) {
+  return gregorianFromJulianDay(jd + BEIJING_UTC_OFFSET_HOURS / 24);
+}
+
+const polynomial = (t: number, coefficients: number[]) =>
+  coefficients.reduceRight((sum, c) => sum * t + c, 0);
+
+/**
+ * ΔT = TT - UT in seconds for a decimal year (Espenak & Meeus, as used by
+ * NASA's eclipse tables). Outside 1800–2150 falls back to the long-term parabola.
+ */
+function deltaTSeconds(year: number): number {
+  const parabola = -20 + 32 * ((year - 1820) / 100) ** 2;
+  if (year < 1800 || year >= 2150) return parabola;
+  if (year < 1860) return polynomial(year - 1800, [13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272, -0.0000001699, 0.000000000875]);
+  if (year < 1900) return polynomial(year - 1860, [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174]);
+  if (year < 1920) return polynomial(year - 1900, [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197]);
+  if (year < 1941) return polynomial(year - 1920, [21.2, 0.84493, -0.0761, 0.0020936]);
+  if (year < 1961) return polynomial(year - 1950, [29.07, 0.407, -1 / 233, 1 / 2547]);
+  if (year < 1986) return polynomial(year - 1975, [45.45, 1.067, -1 / 260, -1 / 718]);
+  if (year < 2005) return polynomial(year - 2000, [63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599]);
+  if (year < 2050) return polynomial(year - 2000, [62.92, 0.32217, 0.005589]);
+  return parabola - 0.5628 * (2150 - year);
+}
+
+// VSOP87 地球日心黄经 L0–L5 与日地距离 R0–R2 的截断周期项 [A, B, C]，项值 = A·cos(B + C·τ)（Meeus 附录 III）
+type VsopTerm = [number, number, number];
+
+const EARTH_L: VsopTerm[][] = [
+  [
+    [175347046, 0, 0], [3341656, 4.6692568, 6283.07585], [34894, 4.6261, 12566.1517], [3497, 2.7441, 5753.3849],
+    [3418, 2.8289, 3.5231], [3136, 3.6277, 77713.7715], [2676, 4.4181, 7860.4194], [2343, 6.1352, 3930.2097],
+    [1324, 0.7425, 11506.7698], [1273, 2.0371, 529.691], [1199, 1.1096, 1577.3435], [990, 5.233, 5884.927],
+    [902, 2.045, 26.298], [857, 3.508, 398.149], [780, 1.179, 5223.694], [753, 2.533, 5507.553],
+    [505, 4.583, 18849.228], [492, 4.205, 775.523], [357, 2.92, 0.067], [317, 5.849, 11790.629],
+    [284, 1.899, 796.298], [271, 0.315, 10977.079], [243, 0.345, 5486.778], [206, 4.806, 2544.314],
+    [205, 1.869, 5573.143], [202, 2.458, 6069.777], [156, 0.833, 213.299], [132, 3.411, 2942.463],
+    [126, 1.083, 20.775], [115, 0.645, 0.98], [103, 0.636, 4694.003], [102, 0.976, 15720.839],
+    [102, 4.267, 7.114], [99, 6.21, 2146.17], [98, 0.68, 155.42], [86, 5.98, 161000.69],
+    [85, 1.3, 6275.96], [85, 3.67, 71430.7], [80, 1.81, 17260.15], [79, 3.04, 12036.46],
+    [75, 1.76, 5088.63], [74, 3.5, 3154.69], [74, 4.68, 801.82], [70, 0.83, 9437.76],
+    [62, 3.98, 8827.39], [61, 1.82, 7084.9], [57, 2.78, 6286.6], [56, 4.39, 14143.5],
+    [56, 3.47, 6279.55], [52, 0.19, 12139.55], [52, 1.33, 1748.02], [51, 0.28, 5856.48],
+    [49, 0.49, 1194.45], [41, 5.37, 8429.24], [41, 2.4, 19651.05], [39, 6.17, 10447.39],
+    [37, 6.04, 10213.29], [37, 2.57, 1059.38], [36, 1.71, 2352.87], [36, 1.78, 6812.77],
+    [33, 0.59, 17789.85], [30, 0.44, 83996.85], [30, 2.74, 1349.87], [25, 3.16, 4690.48],
+  ],
+  [
+    [628331966747, 0, 0], [206059, 2.678235, 6283.07585], [4303, 2.6351, 12566.1517], [425, 1.59, 3.523],
+    [119, 5.796, 26.298], [109, 2.966, 1577.344], [93, 2.59, 18849.23], [72, 1.14, 529.69],
+    [68, 1.87, 398.15], [67, 4.41, 5507.55], [59, 2.89, 5223.69], [56, 2.17, 155.42],
+    [45, 0.4, 796.3], [36, 0.47, 775.52], [29, 2.65, 7.11], [21, 5.34, 0.98],
+    [19, 1.85, 5486.78], [19, 4.97, 213.3], [17, 2.99, 6275.96], [16, 0.03, 2544.31],
+    [16, 1.43, 2146.17], [15, 1.21, 10977.08], [12, 2.83, 1748.02], [12, 3.26, 5088.63],
+    [12, 5.27, 1194.45], [12, 2.08, 4694], [11, 0.77, 553.57], [10, 1.3, 6286.6],
+    [10, 4.24, 1349.87], [9, 2.7, 242.73], [9, 5.64, 951.72], [8, 5.3, 2352.87],
+    [6, 2.65, 9437.76], [6, 4.67, 4690.48],
+  ],
+  [
+    [52919, 0, 0], [8720, 1.0721, 6283.0758], [309, 0.867, 12566.152], [27, 0.05, 3.52],
+    [16, 5.19, 26.3], [16, 3.68, 155.42], [10, 0.76, 18849.23], [9, 2.06, 77713.77],
+    [7, 0.83, 775.52], [5, 4.66, 1577.34], [4, 1.03, 7.11], [4, 3.44, 5573.14],
+    [3, 5.14, 796.3], [3, 6.05, 5507.55], [3, 1.19, 242.73], [3, 6.12, 529.69],
+    [3, 0.31, 398.15], [3, 2.28, 553.57], [2, 4.38, 5223.69], [2, 3.75, 0.98],
+  ],
+  [
+    [289, 5.844, 6283.076], [35, 0, 0], [17, 5.49, 12566.15], [3, 5.2, 155.42],
+    [1, 4.72, 3.52], [1, 5.3, 18849.23], [1, 5.97, 242.73],
+  ],
+  [[114, 3.142, 0], [8, 4.13, 6283.08], [1, 3.84, 12566.15]],
+  [[1, 3.14, 0]],
+];
+
+const EARTH_R: VsopTerm[][] = [
+  [
+    [100013989, 0, 0], [1670700, 3.0984635, 6283.07585], [13956, 3.05525, 12566.1517], [3084, 5.1985, 77713.7715],
+    [1628, 1.1739, 5753.3849], [1576, 2.8469, 7860.4194], [925, 5.453, 11506.77], [542, 4.564, 3930.21],
+    [472, 3.661, 5884.927],
+  ],
+  [[103019, 1.10749, 6283.07585], [1721, 1.0644, 12566.1517], [702, 3.142, 0]],
+  [[4359, 5.7846, 6283.0758], [124, 5.579, 12566.152]],
+];
+
+/** Sum of a VSOP87 series (in units of 1e-8) for τ Julian millennia from J2000. */
+const vsop = (series: VsopTerm[][], tau: number) =>
+  series.reduce(
+    (sum, terms, power) => sum + terms.reduce((s, [a, b, c]) => s + a * Math.cos(b + c * tau), 0) * tau ** power,
+    0
+  ) / 1e8;
+
+/** Apparent geocentric longitude of the sun in degrees for a Julian Ephemeris Day. */
+function apparentSolarLongitude(jde: number): number {
+  const tau = (jde - 2451545.0) / 365250;
+  const t = tau * 10;
+
+  // Geometric longitude: heliocentric Earth + 180°, then VSOP → FK5 (−0.09033″)
+  let longitude = vsop(EARTH_L, tau) / DEG + 180;
+  longitude -= 0.09033 / 3600;
+
+  // Nutation in longitude (Meeus ch. 22, accurate to ~0.5″)
+  const omega = (125.04452 - 1934.136261 * t) * DEG;
+  const sunMean = (280.4665 + 36000.7698 * t) * DEG;
+  const moonMean = (218.3165 + 481267.8813 * t) * DEG;
+  const nutation = -17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * sunMean) - 0.23 * Math.sin(2 * moonMean) + 0.21 * Math.sin(2 * omega);
+
+  // Annual aberration
+  const aberration = -20.4898 / vsop(EARTH_R, tau);
+
+  return normalizeDegrees(longitude + (nutation + aberration) / 3600);
+}
+
+/** Solve for the moment (UT Julian Day) the sun reaches `targetLongitude`, starting near `guessJd`. */
+function solveSolarLongitude(targetLongitude: number, guessJd: number): number {
+  let jd = guessJd;
+  for (let i = 0; i < 20; i++) {
+    const jde = jd + deltaTSeconds(2000 + (jd - 2451545.0) / 365.25) / 86400;
+    let diff = targetLongitude - apparentSolarLongitude(jde);
+    diff = ((diff + 540) % 360) - 180; // wrap into [-180, 180)
+    const step = (diff / 360) * TROPICAL_YEAR;
+    jd += step;
+    if (Math.abs(step) < 1e-6) break;
+  }
+  return jd;
+}
+
+/** The 12 节 of a Gregorian year, in chronological order (小寒 … 大雪). */
+export function getJieOfYear(year: number): JieQiMoment[] {
+  const jan6 = julianDayFromGregorian(year, 1, 6);
+  return JIE_NAMES.map((name, k) => ({
+    name,
+    jieIndex: k,
+    jd: solveSolarLongitude(normalizeDegrees(285 + 30 * k), jan6 + k * (TROPICAL_YEAR / 12)),
+  }));
+}
+
+/**
+ * The 节 immediately at/before and strictly after a moment.
+ * A birth exactly at the 交节 time counts as already inside the new month.
+ */
+export function findSurroundingJie(jd: number): { prev: JieQiMoment; next: JieQiMoment } {
+  const { year } = gregorianFromJulianDay(jd);
+  const terms = [...getJieOfYear(year - 1), ...getJieOfYear(year), ...getJieOfYear(year + 1)];
+  const nextIdx = terms.findIndex((t) => t.jd > jd);
+  return { prev: terms[nextIdx - 1], next: terms[nextIdx] };
+}
+
+/** 立春 of a Gregorian year (UT Julian Day). */
+export function getLiChun(year: number): number {
+  return getJieOfYear(year)[1].jd;
+}
+
+/** `YYYY-MM-DD HH:mm` in Beijing time, for display. */
+export function formatBeijingTime(jd: number): string {
+  const t = beijingTimeFromJulianDay(jd);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${t.year}-${pad(t.month)}-${pad(t.day)} ${pad(t.hour)}:${pad(t.minute)}`;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Gender, KLinePoint, UserInput } from "../types";
+import { CHILDHOOD_DA_YUN, TIMELINE_MAX_AGE, buildLifeTimeline, reconcileChartWithTimeline } from "./timeline";
+
+const input: UserInput = {
+  gender: Gender.MALE,
+  birthYear: "1990",
+  yearPillar: "庚午",
+  monthPillar: "辛巳",
+  dayPillar: "庚辰",
+  hourPillar: "辛巳",
+  startAge: "8",
+  firstDaYun: "壬午",
+};
+
+const timeline = buildLifeTimeline(input)!;
+
+const point = (age: number, patch: Partial<KLinePoint> = {}): KLinePoint => ({
+  ...timeline[age - 1],
+  open: 50, close: 55, high: 60, low: 45, score: 55, reason: "平稳", ...patch,
+});
+
+const fullChart = () => timeline.map((entry) => point(entry.age));
+
+describe("buildLifeTimeline", () => {
+  it("covers 虚岁 1–100 with year and 流年 干支", () => {
+    expect(timeline).toHaveLength(TIMELINE_MAX_AGE);
+    expect(timeline[0]).toMatchObject({ age: 1, year: 1990, ganZhi: "庚午" });
+    expect(timeline[34]).toMatchObject({ age: 35, year: 2024, ganZhi: "甲辰" });
+    expect(timeline[99]).toMatchObject({ age: 100, year: 2089 });
+  });
+
+  it("runs 童限 before 起运 and a new 大运 every ten years", () => {
+    expect(timeline[6].daYun).toBe(CHILDHOOD_DA_YUN);
+    expect(timeline.slice(7, 17).every((e) => e.daYun === "壬午")).toBe(true);
+    expect(timeline[17].daYun).toBe("癸未");
+    expect(timeline[27].daYun).toBe("甲申");
+  });
+
+  it("runs backward for a 阳女", () => {
+    const female = buildLifeTimeline({ ...input, gender: Gender.FEMALE, startAge: "4", firstDaYun: "庚辰" })!;
+    expect(female[3].daYun).toBe("庚辰");
+    expect(female[13].daYun).toBe("己卯");
+    expect(female[23].daYun).toBe("戊寅");
+  });
+
+  it("returns null when the input cannot anchor a timeline", () => {
+    expect(buildLifeTimeline({ ...input, birthYear: "" })).toBeNull();
+    expect(buildLifeTimeline({ ...input, startAge: "0" })).toBeNull();
+    expect(buildLifeTimeline({ ...input, yearPillar: "午庚" })).toBeNull();
+    expect(buildLifeTimeline({ ...input, firstDaYun: "壬" })).toBeNull();
+  });
+});
+
+describe("reconcileChartWithTimeline", () => {
+  it("leaves a matching chart untouched", () => {
+    const chart = fullChart();
+    expect(reconcileChartWithTimeline(chart, timeline)).toEqual({ chartData: chart, corrections: [] });
+  });
+
+  it("corrects year and 流年 干支", () => {
+    const chart = fullChart();
+    chart[34] = point(35, { year: 2025, ganZhi: "乙巳" });
+    const { chartData, corrections } = reconcileChartWithTimeline(chart, timeline);
+    expect(corrections).toEqual([
+      { age: 35, kind: "year", from: 2025, to: 2024 },
+      { age: 35, kind: "ganZhi", from: "乙巳", to: "甲辰" },
+    ]);
+    expect(chartData[34]).toMatchObject({ year: 2024, ganZhi: "甲辰", reason: "平稳" });
+  });
+
+  it("corrects 大运 but accepts a trailing 大运 suffix", () => {
+    const chart = fullChart();
+    chart[7] = point(8, { daYun: "壬午大运" });
+    chart[8] = point(9, { daYun: "癸未" });
+    const { chartData, corrections } = reconcileChartWithTimeline(chart, timeline);
+    expect(corrections).toEqual([{ age: 9, kind: "daYun", from: "癸未", to: "壬午" }]);
+    expect(chartData[7].daYun).toBe("壬午");
+    expect(chartData[8].daYun).toBe("壬午");
+  });
+
+  it("flags missing ages without inventing points", () => {
+    const chart = fullChart().filter((p) => p.age !== 50);
+    const { chartData, corrections } = reconcileChartWithTimeline(chart, timeline);
+    expect(corrections).toEqual([{ age: 50, kind: "missing" }]);
+    expect(chartData).toHaveLength(TIMELINE_MAX_AGE - 1);
+  });
+
+  it("drops ages outside 1–100 and keeps the first of a repeated age", () => {
+    const chart = [point(1, { age: 0 }), ...fullChart(), point(1, { age: 101 }), point(5, { reason: "重复" })];
+    const { chartData, corrections } = reconcileChartWithTimeline(chart, timeline);
+    expect(corrections).toEqual([
+      { age: 0, kind: "outOfRange" },
+      { age: 101, kind: "outOfRange" },
+    ]);
+    expect(chartData.map((p) => p.age)).toEqual(timeline.map((e) => e.age));
+    expect(chartData[4].reason).toBe("平稳");
+  });
+});
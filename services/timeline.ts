@@ -0,0 +1,89 @@
+import { ChartCorrection, KLinePoint, UserInput } from "../types";
+import { cycleIndexOf, ganZhiFromCycleIndex, shiftGanZhi } from "./ganZhi";
+import { isDaYunForward } from "./daYun";
+
+/**
+ * 本地流年/大运时间线：
+ * - 虚岁 1-100，每岁对应的公历年份与流年干支
+ * - 起运前为"童限"，起运后每十年换一步大运，按方向在六十甲子中顺推或逆推
+ * 模型输出的 year / ganZhi / daYun 以此为准进行校正。
+ */
+
+export const TIMELINE_MAX_AGE = 100;
+export const CHILDHOOD_DA_YUN = '童限';
+
+export interface TimelineEntry {
+  age: number;
+  year: number;
+  ganZhi: string;
+  daYun: string;
+}
+
+/** Returns null when the input cannot anchor a timeline (bad birth year, 起运 age or 大运). */
+export function buildLifeTimeline(input: UserInput): TimelineEntry[] | null {
+  const birthYear = parseInt(input.birthYear);
+  const startAge = parseInt(input.startAge);
+  const forward = isDaYunForward(input.yearPillar, input.gender);
+  if (!Number.isInteger(birthYear) || !Number.isInteger(startAge) || startAge < 1) return null;
+  if (forward === null || cycleIndexOf(input.firstDaYun) === -1) return null;
+
+  const entries: TimelineEntry[] = [];
+  for (let age = 1; age <= TIMELINE_MAX_AGE; age++) {
+    // 虚岁：出生当年为 1 岁
+    const year = birthYear + age - 1;
+    const steps = Math.floor((age - startAge) / 10);
+    entries.push({
+      age,
+      year,
+      ganZhi: ganZhiFromCycleIndex(year - 1984),
+      daYun: age < startAge ? CHILDHOOD_DA_YUN : shiftGanZhi(input.firstDaYun, forward ? steps : -steps),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Overwrite the model's year / ganZhi / daYun with the local timeline.
+ * Ages the model skipped are only flagged (their scores cannot be invented);
+ * points outside 1-100 are dropped. The first point wins when an age repeats.
+ */
+export function reconcileChartWithTimeline(
+  chart: KLinePoint[],
+  timeline: TimelineEntry[]
+): { chartData: KLinePoint[]; corrections: ChartCorrection[] } {
+  const corrections: ChartCorrection[] = [];
+  const byAge = new Map<number, KLinePoint>();
+  for (const point of chart) {
+    if (point.age < 1 || point.age > TIMELINE_MAX_AGE) {
+      corrections.push({ age: point.age, kind: 'outOfRange' });
+      continue;
+    }
+    if (!byAge.has(point.age)) byAge.set(point.age, point);
+  }
+
+  const chartData: KLinePoint[] = [];
+  for (const entry of timeline) {
+    const point = byAge.get(entry.age);
+    if (!point) {
+      corrections.push({ age: entry.age, kind: 'missing' });
+      continue;
+    }
+    const fixed: KLinePoint = { ...point };
+    if (point.year !== entry.year) {
+      corrections.push({ age: entry.age, kind: 'year', from: point.year, to: entry.year });
+      fixed.year = entry.year;
+    }
+    if ((point.ganZhi || '').trim() !== entry.ganZhi) {
+      corrections.push({ age: entry.age, kind: 'ganZhi', from: point.ganZhi, to: entry.ganZhi });
+      fixed.ganZhi = entry.ganZhi;
+    }
+    // Models often write "甲子大运"; only the 干支 itself is compared
+    const modelDaYun = (point.daYun || '').replace(/大运$/, '').trim();
+    if (modelDaYun !== entry.daYun) {
+      corrections.push({ age: entry.age, kind: 'daYun', from: point.daYun, to: entry.daYun });
+    }
+    fixed.daYun = entry.daYun;
+    chartData.push(fixed);
+  }
+  return { chartData, corrections };
+}
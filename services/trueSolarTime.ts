@@ -0,0 +1,66 @@
+import { SolarBirthDateTime } from "../types";
+import {
+  BEIJING_UTC_OFFSET_HOURS,
+  gregorianFromJulianDay,
+  julianDayFromBeijingTime,
+} from "./solarTerms";
+
+/**
+ * 真太阳时校正：
+ * - 经度差：北京时间以东经 120° 为标准，每差 1° 相差 4 分钟
+ * - 均时差：地球轨道偏心与黄赤交角导致的视太阳与平太阳之差（±16 分钟以内）
+ * 真太阳时 = 北京时间 + 经度差 + 均时差
+ */
+
+const DEG = Math.PI / 180;
+const STANDARD_MERIDIAN = BEIJING_UTC_OFFSET_HOURS * 15;
+
+export interface TrueSolarTimeCorrection {
+  longitude: number;
+  longitudeMinutes: number; // 经度差（分钟）
+  equationOfTime: number;   // 均时差（分钟）
+  totalMinutes: number;
+  corrected: SolarBirthDateTime;
+}
+
+/** Equation of time in minutes (Meeus ch. 28, low-accuracy form). Positive means the sundial is ahead. */
+export function equationOfTimeMinutes(jd: number): number {
+  const t = (jd - 2451545.0) / 36525;
+  const l0 = (280.46646 + 36000.76983 * t) * DEG;
+  const m = (357.52911 + 35999.05029 * t) * DEG;
+  const e = 0.016708634 - 0.000042037 * t;
+  const epsilon = (23.4392911 - 0.0130042 * t) * DEG;
+  const y = Math.tan(epsilon / 2) ** 2;
+
+  const eRadians =
+    y * Math.sin(2 * l0) -
+    2 * e * Math.sin(m) +
+    4 * e * y * Math.sin(m) * Math.cos(2 * l0) -
+    0.5 * y * y * Math.sin(4 * l0) -
+    1.25 * e * e * Math.sin(2 * m);
+  return (eRadians / DEG) * 4;
+}
+
+export function correctToTrueSolarTime(dt: SolarBirthDateTime, longitude: number): TrueSolarTimeCorrection {
+  const jd = julianDayFromBeijingTime(dt.year, dt.month, dt.day, dt.hour, dt.minute);
+  const longitudeMinutes = (longitude - STANDARD_MERIDIAN) * 4;
+  const equationOfTime = equationOfTimeMinutes(jd);
+  const totalMinutes = longitudeMinutes + equationOfTime;
+
+  const local = gregorianFromJulianDay(jd + (BEIJING_UTC_OFFSET_HOURS * 60 + totalMinutes) / 1440);
+  return {
+    longitude,
+    longitudeMinutes,
+    equationOfTime,
+    totalMinutes,
+    corrected: local,
+  };
+}
+
+/** Parse a longitude typed in the form; only 70°E–140°E (China and surroundings) is accepted. */
+export function parseLongitude(value?: string): number | null {
+  const n = Number((value || '').trim());
+  if (!value || !value.trim() || !Number.isFinite(n)) return null;
+  if (n < 70 || n > 140) return null;
+  return n;
+}
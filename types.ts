@@ -13,6 +13,31 @@ export interface UserInput {
   hourPillar: string;  // 时柱
   startAge: string;    // 起运年龄 (虚岁) - Changed to string to handle input field state easily, parse later
   firstDaYun: string;  // 第一步大运干支
+  birthDate?: string;  // 公历出生日期 YYYY-MM-DD (自动排盘模式)
+  birthTime?: string;  // 出生时间 HH:mm (北京时间)
+  birthPlace?: string;     // 出生地（用于真太阳时校正）
+  birthLongitude?: string; // 出生地经度（东经，度）
+  ziHourRule?: ZiHourRule;
+  continuousKLine?: boolean; // K线连续模式：每年开盘承接上一年收盘
+}
+
+// 子时换日规则：nextDay = 23 点起算次日（子初换日）；splitMidnight = 区分早晚子时，0 点换日
+export type ZiHourRule = 'nextDay' | 'splitMidnight';
+
+// 公历出生时刻（北京时间）
+export interface SolarBirthDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface FourPillars {
+  year: string;  // 年柱
+  month: string; // 月柱
+  day: string;   // 日柱
+  hour: string;  // 时柱
 }
 
 export interface KLinePoint {
@@ -49,7 +74,92 @@ export interface AnalysisData {
   familyScore: number; // 0-10
 }
 
+// 本地排盘对模型输出的校正记录
+export interface ChartCorrection {
+  age: number;
+  kind: 'year' | 'ganZhi' | 'daYun' | 'missing' | 'outOfRange';
+  from?: string | number; // 模型原值
+  to?: string | number;   // 校正后的值
+}
+
+// K线数据完整性修复记录
+export interface ChartIntegrityWarning {
+  age: number;
+  kind: 'nonNumeric' | 'clamped' | 'highBelowBody' | 'lowAboveBody' | 'duplicateAge' | 'continuity';
+  field?: 'open' | 'close' | 'high' | 'low' | 'score';
+  from?: number | string;
+  to?: number;
+}
+
+// 运行时校验发现的问题（见 services/resultSchema.ts）
+export interface SchemaIssue {
+  path: string;      // 如 chartData[37].high
+  message: string;   // 如 expected number ≥ low
+  severity: 'error' | 'warning';
+}
+
 export interface LifeDestinyResult {
   chartData: KLinePoint[];
   analysis: AnalysisData;
-}
\ No newline at end of file
+  corrections?: ChartCorrection[];
+  integrityWarnings?: ChartIntegrityWarning[];
+  validationIssues?: SchemaIssue[]; // 本地修复后仍存在的问题
+}
+
+// 生成失败的分类（见 services/analysisErrors.ts）
+export type AnalysisErrorKind =
+  | 'missingKey'
+  | 'invalidInput'
+  | 'auth'
+  | 'rateLimit'
+  | 'network'
+  | 'truncated'
+  | 'unparseable'
+  | 'schema'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+export interface AnalysisRequestMeta {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  task?: string;     // 失败的请求，如 "命理报告"
+  status?: number;   // HTTP 状态码
+  stopReason?: string;
+  attempts?: number;
+  startedAt?: string;
+  durationMs?: number;
+}
+
+export interface AnalysisErrorDiagnostics {
+  detail?: string;        // 原始技术信息
+  rawOutput?: string;     // 最后一次模型原始输出
+  parsed?: unknown;       // 最后一次解析（规范化）后的对象
+  issues?: SchemaIssue[];
+  request?: AnalysisRequestMeta;
+}
+
+// 可跨 NDJSON 传输的错误描述
+export interface AnalysisErrorInfo {
+  kind: AnalysisErrorKind;
+  message: string;
+  diagnostics: AnalysisErrorDiagnostics;
+}
+
+// 某个模型请求（报告或某段K线）的一次失败尝试及后续处理
+export interface GenerationAttempt {
+  task: string;        // 如 "命理报告"、"K线 1-8 岁（童限）"
+  attempt: number;     // 失败的是第几次尝试（从 1 开始）
+  maxAttempts: number;
+  error: string;
+  next: 'backoff' | 'repair' | 'giveUp' | 'acceptPartial';
+  delayMs?: number;    // next 为 backoff 时的等待时长
+}
+
+// /api/analyze 的流式响应（NDJSON，每行一个事件）
+export type AnalysisStreamEvent =
+  | { type: 'point'; point: KLinePoint }
+  | { type: 'attempt'; attempt: GenerationAttempt }
+  | { type: 'result'; result: LifeDestinyResult }
+  | { type: 'error'; error: AnalysisErrorInfo };
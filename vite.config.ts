@@ -2,23 +2,20 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
 
-  // Normalize and prioritize keys so frontend code (import.meta.env.VITE_*) can read them.
-  // Priority: explicit VITE_OPENAI_KEY > generic API_KEY / OPENAI_API_KEY > VITE_API_KEY
-  const apiKey =
-    env.VITE_OPENAI_KEY ||
-    env.API_KEY ||
-    env.OPENAI_API_KEY ||
-    env.VITE_API_KEY ||
-    '';
+  // The API key lives on the Node server (server/index.ts). Only an explicit VITE_LLM_API_KEY
+  // (or the older VITE_OPENAI_KEY) is exposed, and only to the dev server, for the local direct
+  // mode; builds never embed it.
+  const apiKey = command === 'serve' ? env.VITE_LLM_API_KEY || env.VITE_OPENAI_KEY || '' : '';
 
-  // Expose model/base (allow VITE_* prefixed overrides or fallbacks)
-  const openaiModel = env.VITE_OPENAI_MODEL || env.OPENAI_MODEL || 'gpt-5';
-  const openaiBase = env.VITE_OPENAI_BASE || env.OPENAI_BASE || 'https://api.openai.com/v1';
+  // Provider/model/base for direct mode; empty values fall back to the provider's defaults
+  const provider = env.VITE_LLM_PROVIDER || '';
+  const model = env.VITE_LLM_MODEL || env.VITE_OPENAI_MODEL || '';
+  const baseUrl = env.VITE_LLM_BASE_URL || env.VITE_OPENAI_BASE || '';
 
   return {
     plugins: [react()],
@@ -28,13 +25,18 @@ export default defineConfig(({ mode }) => {
       assetsDir: 'assets',
       sourcemap: false,
     },
+    server: {
+      // Forward /api to the Node server during development (npm run server)
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8787}`,
+      },
+    },
     define: {
-      // Keep backward compatibility for any code using process.env.API_KEY
-      'process.env.API_KEY': JSON.stringify(apiKey || ''),
-      // Ensure import.meta.env.VITE_OPENAI_KEY / VITE_OPENAI_MODEL / VITE_OPENAI_BASE are defined at build time
-      'import.meta.env.VITE_OPENAI_KEY': JSON.stringify(apiKey || ''),
-      'import.meta.env.VITE_OPENAI_MODEL': JSON.stringify(openaiModel),
-      'import.meta.env.VITE_OPENAI_BASE': JSON.stringify(openaiBase),
+      // Ensure import.meta.env.VITE_LLM_* are defined at build time
+      'import.meta.env.VITE_LLM_PROVIDER': JSON.stringify(provider),
+      'import.meta.env.VITE_LLM_API_KEY': JSON.stringify(apiKey),
+      'import.meta.env.VITE_LLM_MODEL': JSON.stringify(model),
+      'import.meta.env.VITE_LLM_BASE_URL': JSON.stringify(baseUrl),
     }
   };
 });